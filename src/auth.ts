@@ -0,0 +1,250 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createHash, randomBytes } from 'crypto';
+import { AuthError } from './errors';
+import { MessageSignerLike, signMessage, verifyMessage } from './signer';
+import {
+  DELEGATION_SCOPES,
+  RevocationList,
+  SignedDelegation,
+  assertNotRevoked,
+  decodeDelegation,
+  encodeDelegation,
+  verifyDelegation
+} from './delegation';
+import type { AgentIdentity } from './index';
+
+// Request signature headers (lower-case, as Node exposes them)
+export const AUTH_HEADERS = {
+  wallet: 'x-said-wallet',
+  timestamp: 'x-said-timestamp',
+  nonce: 'x-said-nonce',
+  signature: 'x-said-signature',
+  delegation: 'x-said-delegation' // Present when an operator key signs for the owner
+} as const;
+
+const REQUEST_SIGNATURE_VERSION = 'SAID-REQUEST-V2';
+
+/**
+ * The parts of an HTTP request covered by the signature
+ */
+export interface RequestToSign {
+  method: string;
+  host: string;                 // Host header the request is sent with, e.g. 'api.example' or 'localhost:3000'
+  path: string;                 // Path and query string, e.g. '/tasks?limit=5'
+  body?: string | Uint8Array;   // Exact bytes sent; omitted or empty for no body
+}
+
+/**
+ * A received request to verify
+ */
+export interface SignedRequest extends Omit<RequestToSign, 'host'> {
+  host?: string; // Default: the Host header
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Options for signing a request
+ */
+export interface SignRequestOptions {
+  timestamp?: number; // Unix seconds (default now)
+  nonce?: string;     // Default 16 random bytes, base58
+  delegation?: SignedDelegation; // Sign with an operator key on the owner's behalf
+}
+
+/**
+ * Remembers nonces so a signed request is accepted only once
+ *
+ * `add` must atomically record the nonce and resolve to false when it was
+ * already present (e.g. Redis `SET key 1 NX PX ttl`).
+ */
+export interface NonceStore {
+  add(nonce: string, ttlMs: number): Promise<boolean> | boolean;
+}
+
+/**
+ * In-memory nonce store; expired nonces are swept on insert
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  add(nonce: string, ttlMs: number): boolean {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.nonces) {
+      if (expiresAt <= now) this.nonces.delete(key);
+    }
+    if (this.nonces.has(nonce)) return false;
+
+    this.nonces.set(nonce, now + ttlMs);
+    return true;
+  }
+}
+
+/**
+ * Options for verifying signed requests
+ */
+export interface RequestVerifierOptions {
+  lookup: (wallet: string) => Promise<AgentIdentity | null>; // e.g. (w) => said.lookup(w)
+  hosts: string[];            // Hosts this service answers on; requests signed for any other are rejected
+  requireVerified?: boolean;  // Reject registered but unverified agents (default false)
+  maxSkewSeconds?: number;    // Accepted clock difference either way (default 300)
+  nonces?: NonceStore;        // Default: in-memory, per verifier
+  now?: () => number;         // Unix seconds
+  // Owner's revocation list, e.g. (w) => said.getRevocations(w). Requests
+  // signed by delegated operator keys are rejected unless this is set.
+  revocations?: (owner: string) => Promise<RevocationList | null>;
+}
+
+export const DEFAULT_MAX_SKEW_SECONDS = 300;
+
+/**
+ * The exact bytes a request signature covers
+ */
+export function requestSigningPayload(
+  request: RequestToSign,
+  wallet: string,
+  timestamp: number,
+  nonce: string
+): Uint8Array {
+  const body = typeof request.body === 'string' ? Buffer.from(request.body, 'utf8') : request.body ?? new Uint8Array();
+  return new TextEncoder().encode([
+    REQUEST_SIGNATURE_VERSION,
+    request.method.toUpperCase(),
+    request.host.toLowerCase(),
+    request.path,
+    createHash('sha256').update(body).digest('hex'),
+    String(timestamp),
+    nonce,
+    wallet
+  ].join('\n'));
+}
+
+/**
+ * Sign a request with the agent wallet and return the headers to send
+ *
+ * With `options.delegation`, `signer` is the delegated operator key and the
+ * request is made on behalf of the certificate's owner.
+ *
+ * @example
+ * const body = JSON.stringify(task);
+ * const headers = await signRequest({ method: 'POST', host: 'api.example', path: '/tasks', body }, keypair);
+ * await fetch('https://api.example/tasks', { method: 'POST', body, headers: { ...headers, 'content-type': 'application/json' } });
+ */
+export async function signRequest(
+  request: RequestToSign,
+  signer: MessageSignerLike,
+  options: SignRequestOptions = {}
+): Promise<Record<string, string>> {
+  const { delegation } = options;
+  if (delegation && delegation.cert.operator !== signer.publicKey.toBase58()) {
+    throw new Error(`Delegation is for operator ${delegation.cert.operator}, not ${signer.publicKey.toBase58()}`);
+  }
+
+  const wallet = delegation ? delegation.cert.owner : signer.publicKey.toBase58();
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const nonce = options.nonce ?? bs58.encode(randomBytes(16));
+  const signature = await signMessage(requestSigningPayload(request, wallet, timestamp, nonce), signer);
+
+  const headers: Record<string, string> = {
+    [AUTH_HEADERS.wallet]: wallet,
+    [AUTH_HEADERS.timestamp]: String(timestamp),
+    [AUTH_HEADERS.nonce]: nonce,
+    [AUTH_HEADERS.signature]: bs58.encode(signature)
+  };
+  if (delegation) headers[AUTH_HEADERS.delegation] = encodeDelegation(delegation);
+  return headers;
+}
+
+function header(headers: SignedRequest['headers'], name: string): string | undefined {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build a verifier for signed requests
+ *
+ * The verifier checks, in order: the signature headers, the host against
+ * `hosts`, the timestamp against the replay window, the ed25519 signature,
+ * nonce reuse, and finally the signer's on-chain identity. The signature
+ * covers the host, so a request cannot be replayed against another service. It resolves to the signer's
+ * AgentIdentity or throws AuthError (RpcUnavailableError when the lookup
+ * itself fails).
+ *
+ * A request carrying a delegation must be signed by the certificate's
+ * operator key; the certificate must grant the 'requests' scope, and is
+ * checked against the owner's revocation list last. The identity then
+ * carries the certificate as `delegation`.
+ */
+export function createRequestVerifier(
+  options: RequestVerifierOptions
+): (request: SignedRequest) => Promise<AgentIdentity> {
+  const maxSkew = options.maxSkewSeconds ?? DEFAULT_MAX_SKEW_SECONDS;
+  const nonces = options.nonces ?? new MemoryNonceStore();
+  const now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  const hosts = options.hosts.map((host) => host.toLowerCase());
+
+  return async (request) => {
+    const wallet = header(request.headers, AUTH_HEADERS.wallet);
+    const timestampHeader = header(request.headers, AUTH_HEADERS.timestamp);
+    const nonce = header(request.headers, AUTH_HEADERS.nonce);
+    const signatureHeader = header(request.headers, AUTH_HEADERS.signature);
+    if (!wallet || !timestampHeader || !nonce || !signatureHeader) {
+      throw new AuthError('MISSING_SIGNATURE', 'Request is not signed: missing x-said-* headers');
+    }
+
+    let owner: PublicKey;
+    let signature: Uint8Array;
+    try {
+      owner = new PublicKey(wallet);
+      signature = bs58.decode(signatureHeader);
+    } catch (e) {
+      throw new AuthError('MALFORMED', 'Malformed x-said-wallet or x-said-signature header', e);
+    }
+    const delegationHeader = header(request.headers, AUTH_HEADERS.delegation);
+    let delegation: SignedDelegation | undefined;
+    if (delegationHeader) {
+      if (!options.revocations) {
+        throw new AuthError('BAD_DELEGATION', 'Delegated requests are not accepted: no revocation source is configured');
+      }
+      delegation = decodeDelegation(delegationHeader);
+      verifyDelegation(delegation, { owner: wallet, scope: DELEGATION_SCOPES.requests, now });
+    }
+    const host = (request.host ?? header(request.headers, 'host') ?? '').toLowerCase();
+    if (!hosts.includes(host)) {
+      throw new AuthError('WRONG_AUDIENCE', `Request is for host ${host || '(none)'}, not ${options.hosts.join(' or ')}`);
+    }
+    const timestamp = Number(timestampHeader);
+    if (!Number.isInteger(timestamp)) {
+      throw new AuthError('MALFORMED', `Malformed x-said-timestamp header: ${timestampHeader}`);
+    }
+
+    const skew = Math.abs(now() - timestamp);
+    if (skew > maxSkew) {
+      throw new AuthError('STALE_TIMESTAMP', `Request timestamp is ${skew}s off (max ${maxSkew}s)`);
+    }
+
+    const payload = requestSigningPayload({ ...request, host }, wallet, timestamp, nonce);
+    const signerKey = delegation ? new PublicKey(delegation.cert.operator) : owner;
+    if (!verifyMessage(payload, signature, signerKey)) {
+      throw new AuthError('BAD_SIGNATURE', `Request signature does not match ${delegation ? 'operator' : 'wallet'} ${signerKey.toBase58()}`);
+    }
+
+    // Only nonces of valid signatures are recorded, so forgeries can't burn them.
+    // A nonce outlives the window in which its timestamp would be accepted.
+    if (!(await nonces.add(`${wallet}:${nonce}`, maxSkew * 2 * 1000))) {
+      throw new AuthError('NONCE_REUSED', 'Request nonce was already used');
+    }
+
+    const agent = await options.lookup(wallet);
+    if (!agent) {
+      throw new AuthError('NOT_REGISTERED', `Wallet ${wallet} has no SAID identity`);
+    }
+    if (options.requireVerified && !agent.isVerified) {
+      throw new AuthError('NOT_VERIFIED', `Agent ${wallet} is not verified`);
+    }
+    if (!delegation) return agent;
+
+    assertNotRevoked(delegation.cert, await options.revocations!(wallet));
+    return { ...agent, delegation: delegation.cert };
+  };
+}
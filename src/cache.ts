@@ -0,0 +1,77 @@
+/**
+ * Key/value backend for the SAID lookup cache.
+ *
+ * Implement this to plug in Redis, Memcached or any shared store. Values are
+ * plain JSON-serializable objects (or null for cached negative results);
+ * `get` must resolve to undefined on a miss.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined> | T | undefined;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  clear?(): Promise<void> | void;
+}
+
+/**
+ * Cache settings for SAIDConfig (all TTLs in milliseconds)
+ */
+export interface CacheOptions {
+  store?: CacheStore;    // Defaults to an in-memory LRU
+  identityTtl?: number;  // On-chain identities (default 60s)
+  negativeTtl?: number;  // "Not registered" results (default 10s)
+  cardTtl?: number;      // AgentCard metadata (default 5min)
+  maxEntries?: number;   // Size of the default in-memory LRU (default 1000)
+}
+
+export const DEFAULT_CACHE_OPTIONS = {
+  identityTtl: 60_000,
+  negativeTtl: 10_000,
+  cardTtl: 300_000,
+  maxEntries: 1000
+};
+
+/**
+ * In-memory LRU cache with per-entry expiry
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private maxEntries: number = DEFAULT_CACHE_OPTIONS.maxEntries) {}
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set<T>(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * AgentCard metadata structure (hosted JSON)
+ */
+export interface AgentCard {
+  name: string;
+  description?: string;
+  twitter?: string;
+  wallet?: string;
+  agentPDA?: string;
+  capabilities?: string[];
+  skills?: string[];
+  website?: string;
+  created?: string;
+  verified?: boolean;
+  verifiedAt?: string;
+  mcpEndpoint?: string;
+  a2aEndpoint?: string;
+  serviceTypes?: string[];
+  revocationList?: string; // URI of the owner's delegation RevocationList
+  credentials?: string[];  // Social proof credentials (compact JWS)
+}
+
+/**
+ * Kind of problem found in a card
+ */
+export type CardProblemCode =
+  | 'NOT_OBJECT'
+  | 'REQUIRED'
+  | 'TYPE'
+  | 'LENGTH'
+  | 'PATTERN'
+  | 'URL'
+  | 'TWITTER_HANDLE'
+  | 'WALLET_MISMATCH'
+  | 'PDA_MISMATCH'
+  | 'SIGNATURE_INVALID';
+
+/**
+ * One problem found in a card
+ */
+export interface CardProblem {
+  path: string;        // Field, e.g. 'website' or 'capabilities[2]'; '' for the card itself
+  code: CardProblemCode;
+  message: string;
+}
+
+/**
+ * Outcome of validateCard
+ */
+export interface CardValidationResult {
+  valid: boolean;
+  problems: CardProblem[];
+  card?: AgentCard; // Normalized copy, present when valid
+}
+
+/**
+ * On-chain identity a card must agree with
+ */
+export interface CardExpectations {
+  owner?: string;    // Expected `wallet`
+  agentPDA?: string; // Expected `agentPDA`
+}
+
+const BASE58_ADDRESS = '^[1-9A-HJ-NP-Za-km-z]{32,44}$';
+const TWITTER_HANDLE = /^@?([A-Za-z0-9_]{1,15})$/;
+const TWITTER_URL = /^https?:\/\/(?:www\.)?(?:twitter|x)\.com\/([A-Za-z0-9_]{1,15})\/?$/i;
+const URL_FIELDS = ['website', 'mcpEndpoint', 'a2aEndpoint'] as const;
+
+const stringList = { type: 'array', items: { type: 'string', minLength: 1 } };
+const httpUrl = { type: 'string', format: 'uri', pattern: '^https?://' };
+
+/**
+ * JSON Schema (draft 2020-12) for AgentCard; validateCard enforces it plus
+ * the URL, Twitter and on-chain checks a schema cannot express
+ */
+export const AGENT_CARD_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://saidprotocol.com/schemas/agent-card.json',
+  title: 'AgentCard',
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 100 },
+    description: { type: 'string', maxLength: 2000 },
+    twitter: { type: 'string', pattern: '^@?[A-Za-z0-9_]{1,15}$' },
+    wallet: { type: 'string', pattern: BASE58_ADDRESS },
+    agentPDA: { type: 'string', pattern: BASE58_ADDRESS },
+    capabilities: stringList,
+    skills: stringList,
+    serviceTypes: stringList,
+    website: httpUrl,
+    mcpEndpoint: httpUrl,
+    a2aEndpoint: httpUrl,
+    created: { type: 'string' },
+    verified: { type: 'boolean' },
+    verifiedAt: { type: 'string' },
+    revocationList: { type: 'string', minLength: 1 },
+    credentials: stringList
+  },
+  additionalProperties: true
+} as const;
+
+interface SchemaNode {
+  type?: string;
+  minLength?: number;
+  maxLength?: number;
+  items?: SchemaNode;
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+/**
+ * Check a value against the subset of JSON Schema AGENT_CARD_SCHEMA uses
+ */
+function checkNode(value: unknown, node: SchemaNode, path: string, problems: CardProblem[]): void {
+  if (node.type && typeOf(value) !== node.type) {
+    problems.push({ path, code: 'TYPE', message: `${path} must be a ${node.type}, got ${typeOf(value)}` });
+    return;
+  }
+  if (typeof value === 'string') {
+    if (node.minLength !== undefined && value.length < node.minLength) {
+      problems.push({ path, code: 'LENGTH', message: `${path} must not be empty` });
+    }
+    if (node.maxLength !== undefined && value.length > node.maxLength) {
+      problems.push({ path, code: 'LENGTH', message: `${path} is longer than ${node.maxLength} characters` });
+    }
+  }
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, i) => checkNode(item, node.items!, `${path}[${i}]`, problems));
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && url.hostname.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an AgentCard and return every problem found
+ *
+ * The normalized card has trimmed strings and the Twitter handle as
+ * `@handle` (twitter.com / x.com profile URLs are accepted).
+ *
+ * @param card - Parsed card JSON
+ * @param expected - On-chain owner and PDA the card's wallet/agentPDA must match
+ */
+export function validateCard(card: unknown, expected: CardExpectations = {}): CardValidationResult {
+  if (typeOf(card) !== 'object') {
+    return { valid: false, problems: [{ path: '', code: 'NOT_OBJECT', message: 'card must be a JSON object' }] };
+  }
+
+  const problems: CardProblem[] = [];
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(card as Record<string, unknown>)) {
+    normalized[key] = typeof value === 'string' ? value.trim() : value;
+  }
+
+  for (const field of AGENT_CARD_SCHEMA.required) {
+    if (normalized[field] === undefined) {
+      problems.push({ path: field, code: 'REQUIRED', message: `${field} is required` });
+    }
+  }
+
+  // Twitter profile URLs are normalized to a handle before the pattern check
+  if (typeof normalized.twitter === 'string') {
+    const fromUrl = normalized.twitter.match(TWITTER_URL);
+    const handle = (fromUrl ?? normalized.twitter.match(TWITTER_HANDLE))?.[1];
+    if (handle) {
+      normalized.twitter = `@${handle}`;
+    } else {
+      problems.push({ path: 'twitter', code: 'TWITTER_HANDLE', message: `twitter "${normalized.twitter}" is not a valid handle` });
+    }
+  }
+
+  for (const [field, node] of Object.entries(AGENT_CARD_SCHEMA.properties) as [string, SchemaNode][]) {
+    const value = normalized[field];
+    if (value === undefined || field === 'twitter') continue;
+    checkNode(value, node, field, problems);
+  }
+
+  for (const field of URL_FIELDS) {
+    const value = normalized[field];
+    if (typeof value === 'string' && !isHttpUrl(value)) {
+      problems.push({ path: field, code: 'URL', message: `${field} "${value}" is not an http(s) URL` });
+    }
+  }
+
+  for (const field of ['wallet', 'agentPDA'] as const) {
+    const value = normalized[field];
+    if (typeof value === 'string' && !new RegExp(BASE58_ADDRESS).test(value)) {
+      problems.push({ path: field, code: 'PATTERN', message: `${field} "${value}" is not a Solana address` });
+    }
+  }
+
+  if (expected.owner && typeof normalized.wallet === 'string' && normalized.wallet !== expected.owner) {
+    problems.push({
+      path: 'wallet',
+      code: 'WALLET_MISMATCH',
+      message: `wallet ${normalized.wallet} does not match on-chain owner ${expected.owner}`
+    });
+  }
+  if (expected.agentPDA && typeof normalized.agentPDA === 'string' && normalized.agentPDA !== expected.agentPDA) {
+    problems.push({
+      path: 'agentPDA',
+      code: 'PDA_MISMATCH',
+      message: `agentPDA ${normalized.agentPDA} does not match on-chain PDA ${expected.agentPDA}`
+    });
+  }
+
+  return problems.length === 0
+    ? { valid: true, problems, card: normalized as unknown as AgentCard }
+    : { valid: false, problems };
+}
@@ -2,12 +2,248 @@
 
 import { Command } from 'commander';
 import { Keypair, Connection, PublicKey } from '@solana/web3.js';
-import { SAID, said } from './index';
+import {
+  SAID,
+  SAIDCluster,
+  SAIDError,
+  SAIDErrorCode,
+  SendOptions,
+  CostEstimate,
+  loadKeypair,
+  saveKeypair,
+  isKeystore,
+  PasswordSource,
+  generateMnemonic,
+  deriveAgentWallet,
+  agentDerivationPath,
+  parseFleetManifest,
+  AgentCard,
+  SignedCard,
+  signCard,
+  isSignedCard,
+  validateCard,
+  CardInvalidError,
+  FilePinStore,
+  AgentEvent,
+  Challenge,
+  signChallenge,
+  SignedDelegation,
+  DELEGATION_SCOPES,
+  issueDelegation,
+  isSignedDelegation,
+  isRevocationList,
+  signRevocations,
+  verifyRevocations,
+  toDid,
+  SocialPlatform,
+  SocialProofClaim,
+  SocialCredential,
+  issueSocialCredential,
+  verifySocialCredential
+} from './index';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import * as readline from 'readline';
+import { Writable } from 'stream';
 
 const program = new Command();
 
+// Exit codes per SDK error so scripts can tell "not registered" (1)
+// apart from "couldn't check"
+const EXIT_CODES: Record<SAIDErrorCode, number> = {
+  INVALID_ADDRESS: 2,
+  RPC_UNAVAILABLE: 3,
+  ACCOUNT_MALFORMED: 4,
+  CARD_FETCH_FAILED: 5,
+  CARD_INVALID: 6,
+  TRANSACTION_FAILED: 7,
+  KEYSTORE_INVALID: 8,
+  UNAUTHORIZED: 9,
+  INVALID_CURSOR: 10,
+};
+
+// Encrypted keypair files read their password from here, else prompt
+const PASSWORD_ENV = 'SAID_KEYSTORE_PASSWORD';
+
+// Card pins shared by `said card pin` / `said card diff`
+const DEFAULT_PINS_PATH = path.join(os.homedir(), '.said', 'pins.json');
+
+// Delegations issued and revoked by `said delegate`
+const DEFAULT_DELEGATIONS_PATH = path.join(os.homedir(), '.said', 'delegations.json');
+
+// Fleet mnemonic for derive/recover, else prompt
+const MNEMONIC_ENV = 'SAID_MNEMONIC';
+
+/**
+ * Parse a flag that takes a non-negative integer, e.g. --limit 20
+ */
+function parseCount(flag: string, text: string): number {
+  const value = Number(text.trim());
+  if (!/^\d+$/.test(text.trim()) || !Number.isSafeInteger(value)) {
+    throw new Error(`Invalid ${flag} "${text}" (expected a non-negative integer)`);
+  }
+  return value;
+}
+
+/**
+ * Build send options from --priority-fee and --compute-units
+ */
+function sendOptionsFrom(options: { priorityFee?: string; computeUnits?: string }): SendOptions {
+  return {
+    priorityFee: options.priorityFee === 'auto'
+      ? 'auto'
+      : options.priorityFee !== undefined ? parseCount('--priority-fee', options.priorityFee) : undefined,
+    computeUnitLimit: options.computeUnits !== undefined ? parseCount('--compute-units', options.computeUnits) : undefined
+  };
+}
+
+/**
+ * Print a failure and exit with the code matching its SAIDError
+ */
+function exitWithError(label: string, error: unknown): never {
+  console.error(label, error instanceof Error ? error.message : error);
+  if (error instanceof SAIDError) {
+    console.error(`   Code: ${error.code}`);
+    process.exit(EXIT_CODES[error.code]);
+  }
+  process.exit(1);
+}
+
+/**
+ * Read a password from the terminal without echoing it
+ */
+async function promptPassword(prompt: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`No terminal to prompt for a password; set ${PASSWORD_ENV}`);
+  }
+  // readline echoes keystrokes to its output, so give it one that drops them
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  process.stdout.write(prompt);
+  try {
+    // In terminal mode readline catches Ctrl+C itself, so cancel the prompt here
+    return await new Promise<string>((resolve, reject) => {
+      rl.on('SIGINT', () => reject(new Error('Password prompt cancelled')));
+      rl.question('', resolve);
+    });
+  } finally {
+    rl.close();
+    process.stdout.write('\n');
+  }
+}
+
+/**
+ * Password for encrypted keypair files: $SAID_KEYSTORE_PASSWORD or a prompt
+ */
+function keystorePassword(): PasswordSource {
+  return process.env[PASSWORD_ENV] ?? (() => promptPassword('🔑 Keystore password: '));
+}
+
+/**
+ * Ask for a new password (twice) unless $SAID_KEYSTORE_PASSWORD is set
+ */
+async function newKeystorePassword(): Promise<string> {
+  const fromEnv = process.env[PASSWORD_ENV];
+  if (fromEnv !== undefined) return fromEnv;
+
+  const password = await promptPassword('🔑 New keystore password: ');
+  if ((await promptPassword('🔑 Repeat password: ')) !== password) {
+    throw new Error('Passwords do not match');
+  }
+  if (password.length === 0) {
+    throw new Error('Password must not be empty');
+  }
+  return password;
+}
+
+/**
+ * Fleet mnemonic: $SAID_MNEMONIC or a prompt
+ */
+async function fleetMnemonic(): Promise<string> {
+  return process.env[MNEMONIC_ENV] ?? promptPassword('🌱 Mnemonic: ');
+}
+
+/**
+ * Host an AgentCard on the SAID API, falling back to the saidprotocol.com URI
+ *
+ * A signed envelope, when given, is uploaded alongside the card fields so
+ * the hosted card carries the owner's signature.
+ */
+async function hostCard(
+  wallet: string,
+  card: { name: string; description?: string; twitter?: string; website?: string },
+  signed?: SignedCard
+): Promise<string> {
+  const fallbackUri = `https://www.saidprotocol.com/agents/${wallet}.json`;
+  try {
+    const uploadRes = await fetch('https://api.saidprotocol.com/api/cards', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        wallet,
+        name: card.name,
+        description: card.description,
+        twitter: card.twitter,
+        website: card.website,
+        signedCard: signed,
+      })
+    });
+
+    if (uploadRes.ok) {
+      const data = await uploadRes.json();
+      console.log(`   ✓ Card hosted at: ${data.cardUri}`);
+      return data.cardUri;
+    }
+    // Fallback to saidprotocol.com hosted cards
+    console.log(`   ⚠️ API unavailable, using fallback URI`);
+  } catch (e) {
+    console.log(`   ⚠️ Could not reach API, using fallback URI`);
+  }
+  return fallbackUri;
+}
+
+/**
+ * Print a simulated write and exit: 0 if it would land, TRANSACTION_FAILED if not
+ */
+function reportDryRun(estimate: CostEstimate): never {
+  const sol = (lamports: number) => `${(lamports / 1e9).toFixed(9)} SOL`;
+  console.log('\n🧪 Dry run (nothing was sent)');
+  console.log(`   Rent:             ${sol(estimate.rent)}`);
+  console.log(`   Verification fee: ${sol(estimate.verificationFee)}`);
+  console.log(`   Network fee:      ${sol(estimate.networkFee)}`);
+  console.log(`   Total:            ${sol(estimate.total)}`);
+  if (estimate.unitsConsumed !== undefined) {
+    console.log(`   Compute units:    ${estimate.unitsConsumed}`);
+  }
+  if (estimate.logs.length > 0) {
+    console.log('\n📜 Program logs:');
+    estimate.logs.forEach((line) => console.log(`   ${line}`));
+  }
+
+  if (estimate.error) {
+    console.log(`\n❌ Would fail: ${estimate.error.name} - ${estimate.error.message}`);
+    if (estimate.error.instructionIndex !== undefined) {
+      console.log(`   Instruction: ${estimate.error.instructionIndex}`);
+    }
+    process.exit(EXIT_CODES.TRANSACTION_FAILED);
+  }
+  console.log('\n✅ Would succeed');
+  process.exit(0);
+}
+
+/**
+ * Build an SDK client from the --cluster, --rpc and --program-id options
+ */
+function createClient(options: { cluster?: string; rpc?: string; programId?: string; pins?: string }): SAID {
+  return new SAID({
+    cluster: options.cluster as SAIDCluster,
+    rpcUrl: options.rpc,
+    programId: options.programId,
+    pins: options.pins ? new FilePinStore(path.resolve(options.pins)) : undefined
+  });
+}
+
 program
   .name('said')
   .description('SAID Protocol CLI - Solana Agent Identity')
@@ -22,6 +258,7 @@ walletCmd
   .command('generate')
   .description('Generate a new Solana wallet for your agent')
   .option('-o, --output <path>', 'Output path for wallet.json', './wallet.json')
+  .option('--encrypted', `Encrypt with a password (prompted, or $${PASSWORD_ENV})`)
   .action(async (options) => {
     const outputPath = path.resolve(options.output);
     
@@ -36,12 +273,16 @@ walletCmd
     const keypair = Keypair.generate();
     
     // Save to file
-    fs.writeFileSync(outputPath, JSON.stringify(Array.from(keypair.secretKey)));
+    try {
+      await saveKeypair(outputPath, keypair, options.encrypted ? await newKeystorePassword() : undefined);
+    } catch (error) {
+      exitWithError('❌ Could not save wallet:', error);
+    }
     
     console.log('✅ Wallet generated!');
     console.log('');
     console.log('📍 Address:', keypair.publicKey.toString());
-    console.log('🔑 Saved to:', outputPath);
+    console.log(`🔑 Saved to: ${outputPath}${options.encrypted ? ' (encrypted)' : ''}`);
     console.log('');
     console.log('⚠️  BACKUP THIS FILE! Lose it = lose your identity forever.');
     console.log('');
@@ -63,40 +304,179 @@ walletCmd
     }
     
     try {
+      // Encrypted keystores carry the address in the clear; no password needed
       const keypairData = JSON.parse(fs.readFileSync(keypairPath, 'utf-8'));
-      const keypair = Keypair.fromSecretKey(Uint8Array.from(keypairData));
+      const address = isKeystore(keypairData)
+        ? keypairData.publicKey
+        : Keypair.fromSecretKey(Uint8Array.from(keypairData)).publicKey.toString();
       
-      console.log('📍 Address:', keypair.publicKey.toString());
-      console.log('📁 File:', keypairPath);
+      console.log('📍 Address:', address);
+      console.log('📁 File:', keypairPath, isKeystore(keypairData) ? '(encrypted)' : '');
       console.log('');
       console.log('View on Solscan:');
-      console.log(`  https://solscan.io/account/${keypair.publicKey.toString()}`);
+      console.log(`  https://solscan.io/account/${address}`);
     } catch (e) {
       console.log('❌ Invalid wallet file format');
       process.exit(1);
     }
   });
 
+walletCmd
+  .command('encrypt')
+  .description('Encrypt a plaintext wallet file with a password')
+  .option('-k, --keypair <path>', 'Path to wallet.json', './wallet.json')
+  .option('-o, --output <path>', 'Write here instead of replacing the input file')
+  .action(async (options) => {
+    try {
+      const keypairPath = path.resolve(options.keypair);
+      if (isKeystore(JSON.parse(fs.readFileSync(keypairPath, 'utf-8')))) {
+        console.log('⚠️  Already encrypted:', keypairPath);
+        process.exit(1);
+      }
+      const keypair = await loadKeypair(keypairPath);
+      const outputPath = path.resolve(options.output ?? options.keypair);
+      await saveKeypair(outputPath, keypair, await newKeystorePassword());
+
+      console.log('✅ Wallet encrypted!');
+      console.log('📍 Address:', keypair.publicKey.toString());
+      console.log('🔒 Saved to:', outputPath);
+    } catch (error) {
+      exitWithError('❌ Encryption failed:', error);
+    }
+  });
+
+walletCmd
+  .command('decrypt')
+  .description('Decrypt an encrypted wallet file back to a plaintext byte array')
+  .option('-k, --keypair <path>', 'Path to wallet.json', './wallet.json')
+  .option('-o, --output <path>', 'Write here instead of replacing the input file')
+  .action(async (options) => {
+    try {
+      const keypair = await loadKeypair(path.resolve(options.keypair), keystorePassword());
+      const outputPath = path.resolve(options.output ?? options.keypair);
+      await saveKeypair(outputPath, keypair);
+
+      console.log('✅ Wallet decrypted!');
+      console.log('📍 Address:', keypair.publicKey.toString());
+      console.log('🔓 Saved to:', outputPath);
+      console.log('');
+      console.log('⚠️  This file now holds your secret key in plaintext.');
+    } catch (error) {
+      exitWithError('❌ Decryption failed:', error);
+    }
+  });
+
+walletCmd
+  .command('mnemonic')
+  .description('Generate a new mnemonic to derive a fleet of agent wallets from')
+  .option('--words <n>', 'Number of words: 12 or 24', '12')
+  .action((options) => {
+    if (options.words !== '12' && options.words !== '24') {
+      console.error('❌ --words must be 12 or 24');
+      process.exit(1);
+    }
+    console.log('🌱 Mnemonic:');
+    console.log('');
+    console.log(`   ${generateMnemonic(options.words === '24' ? 256 : 128)}`);
+    console.log('');
+    console.log('⚠️  WRITE THIS DOWN! It restores every agent wallet derived from it.');
+    console.log('');
+    console.log('Next steps:');
+    console.log(`  ${MNEMONIC_ENV}="..." said wallet derive --index 0 -o agent-0.json`);
+  });
+
+walletCmd
+  .command('derive')
+  .description(`Derive agent N's wallet from a mnemonic ($${MNEMONIC_ENV} or prompted)`)
+  .requiredOption('-i, --index <n>', 'Agent index')
+  .option('-o, --output <path>', 'Also save the keypair to this file')
+  .option('--encrypted', `Encrypt the saved file (password prompted, or $${PASSWORD_ENV})`)
+  .action(async (options) => {
+    try {
+      const index = parseCount('--index', options.index);
+      const wallet = deriveAgentWallet(await fleetMnemonic(), index);
+
+      console.log(`📍 Agent ${index}:`, wallet.publicKey.toString());
+      console.log('🧭 Path:', agentDerivationPath(index));
+
+      if (options.output) {
+        const outputPath = path.resolve(options.output);
+        if (fs.existsSync(outputPath)) {
+          console.log('❌ File already exists:', outputPath);
+          process.exit(1);
+        }
+        await saveKeypair(outputPath, wallet, options.encrypted ? await newKeystorePassword() : undefined);
+        console.log(`🔑 Saved to: ${outputPath}${options.encrypted ? ' (encrypted)' : ''}`);
+      }
+    } catch (error) {
+      exitWithError('❌ Derivation failed:', error);
+    }
+  });
+
+walletCmd
+  .command('recover')
+  .description('Find every registered agent derived from a mnemonic')
+  .option('--start <n>', 'First index to check', '0')
+  .option('--gap <n>', 'Stop after this many consecutive unregistered indices', '20')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (options) => {
+    try {
+      const mnemonic = await fleetMnemonic();
+      const saidClient = createClient(options);
+
+      console.log('🔍 Scanning derived wallets...');
+      const found = await saidClient.recoverAgents(mnemonic, {
+        startIndex: parseCount('--start', options.start),
+        gapLimit: parseCount('--gap', options.gap)
+      });
+
+      if (found.length === 0) {
+        console.log('\n❌ No registered agents found under this mnemonic');
+        process.exit(1);
+      }
+
+      console.log(`\n✅ Found ${found.length} agent(s):\n`);
+      for (const { index, wallet, agent } of found) {
+        console.log(`   [${index}] ${wallet.publicKey.toString()} ${agent.isVerified ? '✓ verified' : '○ registered'}`);
+      }
+      console.log('\n📋 Restore a wallet file: said wallet derive --index <n> -o agent.json');
+    } catch (error) {
+      exitWithError('\n❌ Recovery failed:', error);
+    }
+  });
+
 // ============ REGISTER ============
 program
   .command('register')
-  .description('Register a new agent identity (~0.003 SOL rent)')
+  .description('Register a new agent identity (pays PDA rent; see --dry-run)')
   .requiredOption('-k, --keypair <path>', 'Path to wallet keypair JSON file')
   .requiredOption('-n, --name <name>', 'Agent name')
   .option('-t, --twitter <handle>', 'Twitter handle (e.g., @kaiclawd)')
   .option('-d, --description <desc>', 'Agent description')
   .option('-w, --website <url>', 'Website URL')
-  .option('--rpc <url>', 'Custom RPC URL', 'https://api.mainnet-beta.solana.com')
+  .option('--sign', 'Sign the hosted card with the wallet (see `said card verify`)')
+  .option('--priority-fee <microLamports>', 'Priority fee per compute unit, or "auto" to estimate')
+  .option('--compute-units <n>', 'Compute unit limit')
+  .option('--dry-run', 'Simulate and print the cost breakdown without sending')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
   .action(async (options) => {
     try {
+      // Bad flags fail before the card is hosted
+      const send = sendOptionsFrom(options);
+
       console.log('🔐 Loading keypair...');
-      const keypairData = JSON.parse(fs.readFileSync(options.keypair, 'utf-8'));
-      const wallet = Keypair.fromSecretKey(Uint8Array.from(keypairData));
+      const wallet = await loadKeypair(options.keypair, keystorePassword());
       console.log(`   Wallet: ${wallet.publicKey.toString()}`);
 
+      const saidClient = createClient(options);
+
       // Check if already registered
       console.log('\n📡 Checking registration status...');
-      const existing = await said.lookup(wallet.publicKey);
+      const existing = await saidClient.lookup(wallet.publicKey);
       if (existing) {
         console.log('⚠️  This wallet is already registered!');
         console.log(`   PDA: ${existing.pubkey}`);
@@ -104,66 +484,46 @@ program
         process.exit(1);
       }
 
+      if (options.dryRun) {
+        const fallbackUri = `https://www.saidprotocol.com/agents/${wallet.publicKey.toString()}.json`;
+        reportDryRun(await saidClient.estimateRegister(wallet.publicKey, fallbackUri, { send }));
+      }
+
       // Build metadata
-      const metadata = {
+      const metadata: AgentCard = {
         name: options.name,
         description: options.description || `${options.name} - AI Agent on SAID Protocol`,
         twitter: options.twitter || undefined,
         website: options.website || undefined,
         wallet: wallet.publicKey.toString(),
+        agentPDA: saidClient.deriveAgentPDA(wallet.publicKey)[0].toString(),
         created: new Date().toISOString().split('T')[0],
-        verified: false,
       };
 
       // Host metadata on SAID API
       console.log('\n📝 Creating agent card...');
-      
-      let metadataUri: string;
-      try {
-        const uploadRes = await fetch('https://api.saidprotocol.com/api/cards', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            wallet: wallet.publicKey.toString(),
-            name: options.name,
-            description: options.description,
-            twitter: options.twitter,
-            website: options.website,
-          })
-        });
-        
-        if (uploadRes.ok) {
-          const data = await uploadRes.json();
-          metadataUri = data.cardUri;
-          console.log(`   ✓ Card hosted at: ${metadataUri}`);
-        } else {
-          // Fallback to saidprotocol.com hosted cards
-          metadataUri = `https://www.saidprotocol.com/agents/${wallet.publicKey.toString()}.json`;
-          console.log(`   ⚠️ API unavailable, using fallback URI`);
-        }
-      } catch (e) {
-        metadataUri = `https://www.saidprotocol.com/agents/${wallet.publicKey.toString()}.json`;
-        console.log(`   ⚠️ Could not reach API, using fallback URI`);
-      }
+
+      const signed = options.sign ? await signCard(metadata, wallet) : undefined;
+      if (signed) console.log(`   ✓ Card signed by ${signed.signature.publicKey}`);
+      const metadataUri = await hostCard(wallet.publicKey.toString(), options, signed);
 
       // Register on-chain
       console.log('\n⛓️  Registering on-chain...');
-      const saidClient = new SAID({ rpcUrl: options.rpc });
-      const result = await saidClient.registerAgent(wallet, metadataUri);
+      const result = await saidClient.registerAgent(wallet, metadataUri, undefined, send);
       
       console.log('\n✅ Registration successful!');
       console.log(`   Agent PDA: ${result.agentPDA}`);
       console.log(`   Transaction: ${result.txSignature}`);
-      console.log(`   Explorer: https://solscan.io/tx/${result.txSignature}`);
+      console.log(`   Attempts: ${result.confirmation.attempts} (${result.confirmation.status})`);
+      console.log(`   Explorer: ${saidClient.explorerUrl('tx', result.txSignature)}`);
       
       console.log('\n📋 Next steps:');
       console.log('   1. Verify on-chain (0.01 SOL): said verify -k <path>');
       console.log('   2. Mint your passport (0.05 SOL): said passport -k <path>');
       console.log('   3. Optional: Add social links to your profile');
       
-    } catch (error: any) {
-      console.error('\n❌ Registration failed:', error.message);
-      process.exit(1);
+    } catch (error) {
+      exitWithError('\n❌ Registration failed:', error);
     }
   });
 
@@ -182,8 +542,9 @@ program
       let walletAddress = options.wallet;
       if (options.wallet.endsWith('.json')) {
         const keypairData = JSON.parse(fs.readFileSync(options.wallet, 'utf-8'));
-        const keypair = Keypair.fromSecretKey(Uint8Array.from(keypairData));
-        walletAddress = keypair.publicKey.toString();
+        walletAddress = isKeystore(keypairData)
+          ? keypairData.publicKey
+          : (await loadKeypair(options.wallet)).publicKey.toString();
       }
       
       console.log('📝 Registering agent (PENDING - off-chain)...');
@@ -220,9 +581,8 @@ program
         }
       }
       
-    } catch (error: any) {
-      console.error('\n❌ Registration failed:', error.message);
-      process.exit(1);
+    } catch (error) {
+      exitWithError('\n❌ Registration failed:', error);
     }
   });
 
@@ -235,17 +595,26 @@ program
   .option('--handle <handle>', 'Twitter handle (for twitter method)')
   .option('--domain <domain>', 'Domain name (for domain method)')
   .option('--repo <repo>', 'GitHub repo (for github method)')
-  .option('--rpc <url>', 'Custom RPC URL', 'https://api.mainnet-beta.solana.com')
+  .option('--credential <path>', 'Where to write the social proof credential (default: said-<method>.credential.jwt)')
+  .option('--priority-fee <microLamports>', 'Priority fee per compute unit, or "auto" to estimate')
+  .option('--compute-units <n>', 'Compute unit limit')
+  .option('--dry-run', 'Simulate and print the cost breakdown without sending')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
   .action(async (options) => {
     try {
+      const send = sendOptionsFrom(options);
+
       console.log('🔐 Loading keypair...');
-      const keypairData = JSON.parse(fs.readFileSync(options.keypair, 'utf-8'));
-      const wallet = Keypair.fromSecretKey(Uint8Array.from(keypairData));
+      const wallet = await loadKeypair(options.keypair, keystorePassword());
       console.log(`   Wallet: ${wallet.publicKey.toString()}`);
 
+      const saidClient = createClient(options);
+
       // Check if registered
       console.log('\n📡 Checking registration status...');
-      const agent = await said.lookup(wallet.publicKey);
+      const agent = await saidClient.lookup(wallet.publicKey);
       if (!agent) {
         console.log('❌ This wallet is not registered!');
         console.log('   Run: said register --keypair <path> --name "YourName"');
@@ -257,25 +626,18 @@ program
         process.exit(0);
       }
 
+      if (options.dryRun) {
+        reportDryRun(await saidClient.estimateVerify(wallet.publicKey, { send }));
+      }
+
       // Optional social verification (not required for on-chain verification)
       if (options.method) {
         console.log(`\n🔍 Optional social check via ${options.method}...`);
-        
-        let verified = false;
-        
-        if (options.method === 'twitter') {
-          verified = await verifyTwitter(wallet.publicKey.toString(), options.handle);
-        } else if (options.method === 'domain') {
-          verified = await verifyDomain(wallet.publicKey.toString(), options.domain);
-        } else if (options.method === 'github') {
-          verified = await verifyGithub(wallet.publicKey.toString(), options.repo);
-        } else {
-          console.error(`❌ Unknown verification method: ${options.method}`);
-          process.exit(1);
-        }
-        
-        if (verified) {
+        const claim = await checkSocialProof(saidClient, wallet.publicKey.toString(), options);
+
+        if (claim) {
           console.log('   ✓ Social verification passed!');
+          await saveCredential(claim, wallet, options.credential);
         } else {
           console.log('   ⚠️  Social check failed — proceeding with on-chain verification anyway.');
           console.log('   You can add social links to your profile later.');
@@ -284,20 +646,481 @@ program
 
       // Submit verification on-chain (costs 0.01 SOL)
       console.log('\n⛓️  Submitting verification (0.01 SOL)...');
-      const saidClient = new SAID({ rpcUrl: options.rpc });
-      const result = await saidClient.verifyAgent(wallet);
+      const result = await saidClient.verifyAgent(wallet, send);
       
       console.log('\n✅ Verification successful!');
       console.log(`   Transaction: ${result.txSignature}`);
-      console.log(`   Explorer: https://solscan.io/tx/${result.txSignature}`);
+      console.log(`   Attempts: ${result.confirmation.attempts} (${result.confirmation.status})`);
+      console.log(`   Explorer: ${saidClient.explorerUrl('tx', result.txSignature)}`);
       console.log('\n🎉 You are now a verified SAID agent!');
       console.log('\n📋 Next steps:');
       console.log('   • Mint your soulbound passport: said passport --keypair <path>');
       console.log('   • Add social links to your profile (optional)');
       
-    } catch (error: any) {
-      console.error('\n❌ Verification failed:', error.message);
+    } catch (error) {
+      exitWithError('\n❌ Verification failed:', error);
+    }
+  });
+
+// ============ CREDENTIALS ============
+const credentialCmd = program
+  .command('credential')
+  .description('Signed social proof credentials (Twitter, domain, GitHub)');
+
+credentialCmd
+  .command('issue')
+  .description('Check a social proof and sign it into a credential with your wallet')
+  .requiredOption('-k, --keypair <path>', 'Path to wallet keypair JSON file')
+  .requiredOption('-m, --method <method>', 'twitter, domain or github')
+  .option('--handle <handle>', 'Twitter handle (defaults to the one in your card)')
+  .option('--domain <domain>', 'Domain name (for domain method)')
+  .option('--repo <repo>', 'GitHub repo (for github method)')
+  .option('-o, --output <path>', 'Where to write the credential (default: said-<method>.credential.jwt)')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (options) => {
+    try {
+      const wallet = await loadKeypair(options.keypair, keystorePassword());
+      console.log(`🔍 Checking ${options.method} proof for ${wallet.publicKey.toString()}...`);
+      const claim = await checkSocialProof(createClient(options), wallet.publicKey.toString(), options);
+      if (!claim) process.exit(1);
+
+      console.log('   ✓ Proof found');
+      await saveCredential(claim, wallet, options.output);
+    } catch (error) {
+      exitWithError('❌ Issuing credential failed:', error);
+    }
+  });
+
+/**
+ * Print a verified credential; self-issued ones are marked as unchecked claims
+ */
+function printCredential(credential: SocialCredential): void {
+  const mark = credential.selfIssued ? '⚠️  claimed (self-issued, not independently checked):' : '✅';
+  console.log(`${mark} ${credential.platform} ${credential.account}`);
+  console.log(`   Wallet: ${credential.wallet}`);
+  console.log(`   Checked: ${new Date(credential.issuedAt * 1000).toISOString()} (${credential.method})`);
+  if (credential.evidence) console.log(`   Evidence: ${credential.evidence}`);
+  console.log(`   Issuer: ${credential.selfIssued ? 'self-issued' : credential.issuer}`);
+}
+
+const trustedIssuers = (list?: string) => (list ? list.split(',').map((key) => key.trim()).filter(Boolean) : []);
+
+credentialCmd
+  .command('verify <credential>')
+  .description('Verify a credential (compact JWS, or a file holding one)')
+  .option('-w, --wallet <address>', 'Wallet the credential must be about')
+  .option('--trust <issuers>', 'Comma-separated issuer wallets whose credentials to accept')
+  .option('--allow-self-issued', 'Also accept credentials the wallet signed for itself (unchecked claims)')
+  .action((credential, options) => {
+    try {
+      const jws = fs.existsSync(credential) ? fs.readFileSync(credential, 'utf8').trim() : credential;
+      printCredential(verifySocialCredential(jws, {
+        wallet: options.wallet,
+        trustedIssuers: trustedIssuers(options.trust),
+        allowSelfIssued: !!options.allowSelfIssued
+      }));
+    } catch (error) {
+      exitWithError('❌ Credential rejected:', error);
+    }
+  });
+
+credentialCmd
+  .command('list <wallet>')
+  .description("Verify the credentials listed in an agent's card (exits 1 if any is rejected)")
+  .option('--trust <issuers>', 'Comma-separated issuer wallets whose credentials count as proofs')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (wallet, options) => {
+    try {
+      const result = await createClient(options).getSocialProofs(wallet, { trustedIssuers: trustedIssuers(options.trust) });
+      if (!result) {
+        console.log('❌ No agent card found for this wallet.');
+        process.exit(1);
+      }
+      if (result.proofs.length === 0 && result.claims.length === 0 && result.rejected.length === 0) {
+        console.log('No credentials listed in the card.');
+        return;
+      }
+      result.proofs.forEach(printCredential);
+      result.claims.forEach(printCredential);
+      for (const { error } of result.rejected) {
+        console.log(`❌ ${error.reason}: ${error.message}`);
+      }
+      if (result.rejected.length > 0) process.exit(1);
+    } catch (error) {
+      exitWithError('❌ Listing credentials failed:', error);
+    }
+  });
+
+// ============ FLEET ============
+const fleetCmd = program
+  .command('fleet')
+  .description('Declarative bulk registration and verification');
+
+fleetCmd
+  .command('apply <manifest>')
+  .description('Register/verify every agent in a manifest that is not yet in its desired state')
+  .option('--plan', 'Only show what would change; nothing is decrypted or sent')
+  .option('--dry-run', 'Same as --plan')
+  .option('-r, --report <path>', 'Write the per-agent results report here', './fleet-report.json')
+  .option('--priority-fee <microLamports>', 'Priority fee per compute unit, or "auto" to estimate')
+  .option('--compute-units <n>', 'Compute unit limit')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (manifestPath, options) => {
+    try {
+      const manifestFile = path.resolve(manifestPath);
+      const manifest = parseFleetManifest(JSON.parse(fs.readFileSync(manifestFile, 'utf-8')));
+      const plan = !!(options.plan || options.dryRun);
+      const needsMnemonic = manifest.agents.some((agent) => typeof agent.keypair === 'object');
+      const send = sendOptionsFrom(options);
+
+      const saidClient = createClient(options);
+      console.log(`📋 ${plan ? 'Planning' : 'Applying'} ${manifest.agents.length} agent(s) from ${manifestFile}...`);
+
+      const report = await saidClient.applyFleet(manifest, {
+        plan,
+        baseDir: path.dirname(manifestFile),
+        mnemonic: needsMnemonic ? await fleetMnemonic() : undefined,
+        password: keystorePassword(),
+        send,
+        resolveMetadataUri: (agent, wallet) => hostCard(wallet, agent)
+      });
+
+      console.log('');
+      const icons = { unchanged: '✅', planned: '📝', applied: '⛓️ ', failed: '❌' };
+      for (const agent of report.agents) {
+        const steps = agent.actions.length > 0 ? agent.actions.join(' + ') : 'nothing to do';
+        console.log(`${icons[agent.status]} ${agent.name} (${agent.wallet ?? 'no wallet'}): ${agent.before ?? '?'} → ${agent.desired}, ${steps}`);
+        agent.txSignatures.forEach((sig) => console.log(`      ${saidClient.explorerUrl('tx', sig)}`));
+        if (agent.error) console.log(`      ${agent.error}`);
+      }
+
+      const { summary } = report;
+      console.log(`\n📊 ${summary.unchanged} unchanged, ${summary.planned} planned, ${summary.applied} applied, ${summary.failed} failed`);
+
+      fs.writeFileSync(path.resolve(options.report), JSON.stringify(report, null, 2));
+      console.log(`📄 Report: ${path.resolve(options.report)}`);
+
+      if (summary.failed > 0) process.exit(1);
+    } catch (error) {
+      exitWithError('\n❌ Fleet apply failed:', error);
+    }
+  });
+
+// ============ CARD ============
+const cardCmd = program
+  .command('card')
+  .description('Sign and verify AgentCards');
+
+cardCmd
+  .command('sign <card>')
+  .description('Sign an AgentCard JSON file with the owner wallet')
+  .requiredOption('-k, --keypair <path>', 'Path to the owner wallet keypair JSON file')
+  .option('-o, --output <path>', 'Write the signed card here (default: stdout)')
+  .action(async (cardPath, options) => {
+    try {
+      const json = JSON.parse(fs.readFileSync(path.resolve(cardPath), 'utf8'));
+      // Re-signing an envelope signs the card inside it
+      const card: AgentCard = isSignedCard(json) ? json.card : json;
+      const wallet = await loadKeypair(options.keypair, keystorePassword());
+      // Only sign actual cards: an owner signature is what authorizes the card
+      const { problems } = validateCard(card, { owner: wallet.publicKey.toBase58() });
+      if (problems.length > 0) {
+        throw new CardInvalidError(cardPath, problems.map((problem) => problem.message).join('; '));
+      }
+      const signed = JSON.stringify(await signCard(card, wallet), null, 2);
+
+      if (!options.output) {
+        console.log(signed);
+        return;
+      }
+      fs.writeFileSync(path.resolve(options.output), signed + '\n');
+      console.log(`✅ Signed card written to ${path.resolve(options.output)}`);
+      console.log(`   Signer: ${wallet.publicKey.toString()}`);
+      console.log('   Host this file at your metadata URI.');
+    } catch (error) {
+      exitWithError('❌ Signing failed:', error);
+    }
+  });
+
+cardCmd
+  .command('verify <wallet>')
+  .description("Check that an agent's hosted card is signed by its on-chain owner")
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (wallet, options) => {
+    try {
+      const agent = await createClient(options).getAgent(wallet);
+      if (!agent) {
+        console.log('❌ No agent found for this wallet.');
+        process.exit(1);
+      }
+      if (agent.cardError) throw agent.cardError;
+
+      console.log(`🎴 ${agent.card?.name ?? 'Unknown'} (${agent.metadataUri})`);
+      if (agent.cardSignatureValid) {
+        console.log(`✅ Card signature valid (owner ${agent.owner})`);
+        return;
+      }
+      const invalid = agent.cardProblems?.find((p) => p.code === 'SIGNATURE_INVALID');
+      console.log(invalid ? `❌ ${invalid.message}` : '❌ Card is not signed');
       process.exit(1);
+    } catch (error) {
+      exitWithError('❌ Card verification failed:', error);
+    }
+  });
+
+cardCmd
+  .command('pin <wallet>')
+  .description("Record the hash of an agent's current card to detect later changes")
+  .option('--pins <path>', 'Pin store file', DEFAULT_PINS_PATH)
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (wallet, options) => {
+    try {
+      const pin = await createClient(options).pinCard(wallet);
+      if (!pin) {
+        console.log('❌ No agent card found for this wallet.');
+        process.exit(1);
+      }
+      console.log(`📌 Pinned ${pin.metadataUri}`);
+      console.log(`   SHA-256: ${pin.sha256}`);
+      console.log(`   Store: ${path.resolve(options.pins)}`);
+    } catch (error) {
+      exitWithError('❌ Pinning failed:', error);
+    }
+  });
+
+cardCmd
+  .command('diff <wallet>')
+  .description('Show which card fields changed since the card was pinned (exits 1 on changes)')
+  .option('--pins <path>', 'Pin store file', DEFAULT_PINS_PATH)
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (wallet, options) => {
+    try {
+      const diff = await createClient(options).diffCard(wallet);
+      if (!diff) {
+        console.log('❌ No pinned card for this wallet. Pin one first: said card pin <wallet>');
+        process.exit(1);
+      }
+      console.log(`📌 Pinned ${diff.pin.pinnedAt}: ${diff.pin.sha256}`);
+      console.log(`🎴 Current: ${diff.currentHash}`);
+      if (!diff.changed) {
+        console.log('\n✅ Card unchanged');
+        return;
+      }
+
+      const show = (value: unknown) => (value === undefined ? '(none)' : JSON.stringify(value));
+      console.log(`\n⚠️  Card changed (${diff.changes.length} field(s)):`);
+      for (const change of diff.changes) {
+        console.log(`   ${change.field}: ${show(change.before)} → ${show(change.after)}`);
+      }
+      process.exit(1);
+    } catch (error) {
+      exitWithError('❌ Diff failed:', error);
+    }
+  });
+
+// ============ DELEGATE ============
+interface DelegationStore {
+  issued: SignedDelegation[];
+  revoked: Record<string, string[]>; // Owner wallet -> revoked delegation ids
+}
+
+function readDelegations(storePath: string): DelegationStore {
+  const file = path.resolve(storePath);
+  if (!fs.existsSync(file)) return { issued: [], revoked: {} };
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function writeDelegations(storePath: string, store: DelegationStore): void {
+  const file = path.resolve(storePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(store, null, 2) + '\n');
+}
+
+/**
+ * Parse a duration such as 3600, 90m, 12h or 30d into seconds
+ */
+function parseDuration(text: string): number {
+  const match = text.trim().match(/^(\d+)([smhd]?)$/);
+  if (!match) throw new Error(`Invalid duration "${text}" (use e.g. 3600, 90m, 12h or 30d)`);
+  const unit = { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2] as '' | 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
+const delegateCmd = program
+  .command('delegate')
+  .description('Authorize operator keys to sign for your agent');
+
+delegateCmd
+  .command('issue')
+  .description('Sign a delegation certificate for an operator key with the owner wallet')
+  .requiredOption('-k, --keypair <path>', 'Path to the owner wallet keypair JSON file')
+  .requiredOption('--operator <address>', 'Public key of the operator (hot) key')
+  .option('--scopes <list>', 'Comma-separated scopes', `${DELEGATION_SCOPES.requests},${DELEGATION_SCOPES.sessions}`)
+  .option('--expires <duration>', 'Validity, e.g. 12h or 30d', '30d')
+  .option('--label <text>', 'Note recorded in the certificate, e.g. the host name')
+  .option('-o, --output <path>', 'Write the certificate here (default: stdout)')
+  .option('--store <path>', 'Record of issued delegations', DEFAULT_DELEGATIONS_PATH)
+  .action(async (options) => {
+    try {
+      const owner = await loadKeypair(options.keypair, keystorePassword());
+      const scopes = String(options.scopes).split(',').map((scope) => scope.trim()).filter(Boolean);
+      const delegation = await issueDelegation(owner, options.operator, {
+        scopes,
+        ttlSeconds: parseDuration(options.expires),
+        label: options.label
+      });
+
+      const store = readDelegations(options.store);
+      store.issued.push(delegation);
+      writeDelegations(options.store, store);
+
+      const json = JSON.stringify(delegation, null, 2);
+      if (!options.output) {
+        console.log(json);
+        return;
+      }
+      fs.writeFileSync(path.resolve(options.output), json + '\n');
+      console.log(`✅ Delegation ${delegation.cert.id} written to ${path.resolve(options.output)}`);
+      console.log(`   Operator: ${delegation.cert.operator}`);
+      console.log(`   Scopes: ${delegation.cert.scopes.join(', ')}`);
+      console.log(`   Expires: ${new Date(delegation.cert.expiresAt * 1000).toISOString()}`);
+      console.log('   Copy it to the operator host; the owner keypair stays here.');
+    } catch (error) {
+      exitWithError('❌ Issuing delegation failed:', error);
+    }
+  });
+
+delegateCmd
+  .command('list')
+  .description('List delegations issued from this machine')
+  .option('-w, --wallet <address>', 'Only delegations from this owner wallet')
+  .option('--store <path>', 'Record of issued delegations', DEFAULT_DELEGATIONS_PATH)
+  .action((options) => {
+    try {
+      const store = readDelegations(options.store);
+      const delegations = store.issued.filter((d) => !options.wallet || d.cert.owner === options.wallet);
+      if (delegations.length === 0) {
+        console.log('No delegations issued.');
+        return;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      console.log(`🔑 ${delegations.length} delegation(s):\n`);
+      for (const { cert } of delegations) {
+        const status = store.revoked[cert.owner]?.includes(cert.id)
+          ? '⛔ revoked'
+          : cert.expiresAt <= now ? '⌛ expired' : '✅ active';
+        console.log(`${status}  ${cert.id}${cert.label ? ` (${cert.label})` : ''}`);
+        console.log(`   Owner: ${cert.owner}`);
+        console.log(`   Operator: ${cert.operator}`);
+        console.log(`   Scopes: ${cert.scopes.join(', ')}`);
+        console.log(`   Expires: ${new Date(cert.expiresAt * 1000).toISOString()}\n`);
+      }
+    } catch (error) {
+      exitWithError('❌ Listing delegations failed:', error);
+    }
+  });
+
+delegateCmd
+  .command('revoke <id>')
+  .description('Add a delegation to the owner-signed revocation list')
+  .requiredOption('-k, --keypair <path>', 'Path to the owner wallet keypair JSON file')
+  .option('-o, --output <path>', 'Revocation list file to update', 'revocations.json')
+  .option('--store <path>', 'Record of issued delegations', DEFAULT_DELEGATIONS_PATH)
+  .action(async (id, options) => {
+    try {
+      const owner = await loadKeypair(options.keypair, keystorePassword());
+      const wallet = owner.publicKey.toString();
+      const output = path.resolve(options.output);
+
+      // Lists replace each other, so carry over every id revoked before
+      const store = readDelegations(options.store);
+      const revoked = new Set([...(store.revoked[wallet] ?? []), id]);
+      if (fs.existsSync(output)) {
+        const existing = JSON.parse(fs.readFileSync(output, 'utf8'));
+        if (!isRevocationList(existing) || !verifyRevocations(existing, wallet)) {
+          throw new Error(`${output} is not a revocation list signed by ${wallet}`);
+        }
+        existing.revoked.forEach((revokedId) => revoked.add(revokedId));
+      }
+      if (!store.issued.some((d) => d.cert.owner === wallet && d.cert.id === id)) {
+        console.log(`⚠️  ${id} was not issued from this machine; revoking it anyway`);
+      }
+
+      const list = await signRevocations(owner, Array.from(revoked));
+      fs.writeFileSync(output, JSON.stringify(list, null, 2) + '\n');
+      store.revoked[wallet] = list.revoked;
+      writeDelegations(options.store, store);
+
+      console.log(`⛔ Revoked ${id} (${list.revoked.length} revoked in total)`);
+      console.log(`   List: ${output}`);
+      console.log('   Host this file next to your AgentCard and set the card\'s "revocationList" to its URL.');
+    } catch (error) {
+      exitWithError('❌ Revocation failed:', error);
+    }
+  });
+
+// ============ LOGIN ============
+program
+  .command('login')
+  .description('Sign in to a service with your agent wallet and print the session token')
+  .requiredOption('-k, --keypair <path>', 'Path to wallet keypair JSON file')
+  .requiredOption('-u, --url <url>', 'Service base URL (serves POST /challenge and POST /token)')
+  .option('-o, --output <path>', 'Write the token to a file instead of stdout')
+  .option('--delegation <path>', 'Sign in with an operator key (-k) using this delegation certificate')
+  .action(async (options) => {
+    // Status goes to stderr so `TOKEN=$(said login ...)` captures only the token
+    const status = (message: string) => console.error(message);
+    const post = async <T>(endpoint: string, body: unknown): Promise<T> => {
+      const url = `${options.url.replace(/\/+$/, '')}/${endpoint}`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error(`${url} answered ${res.status}: ${await res.text()}`);
+      return res.json() as Promise<T>;
+    };
+
+    try {
+      const wallet = await loadKeypair(options.keypair, keystorePassword());
+      let delegation: SignedDelegation | undefined;
+      if (options.delegation) {
+        delegation = JSON.parse(fs.readFileSync(path.resolve(options.delegation), 'utf8'));
+        if (!isSignedDelegation(delegation)) throw new Error(`${options.delegation} is not a delegation certificate`);
+      }
+      const owner = delegation ? delegation.cert.owner : wallet.publicKey.toString();
+      status(`🔐 Signing in as ${owner}${delegation ? ` (operator ${wallet.publicKey.toString()})` : ''}...`);
+
+      const challenge = await post<Challenge>('challenge', { wallet: owner });
+      // A service relaying another domain's challenge could sign us in there
+      const host = new URL(options.url).host;
+      if (challenge.domain !== host) {
+        throw new Error(`Challenge is for ${challenge.domain}, but the service is ${host}`);
+      }
+      status(`   Challenge from ${challenge.domain}, expires ${new Date(challenge.expiresAt * 1000).toISOString()}`);
+      const { token } = await post<{ token: string }>('token', await signChallenge(challenge, wallet, { delegation }));
+
+      if (options.output) {
+        fs.writeFileSync(path.resolve(options.output), token + '\n', { mode: 0o600 });
+        status(`✅ Token written to ${path.resolve(options.output)}`);
+      } else {
+        console.log(token);
+      }
+    } catch (error) {
+      exitWithError('❌ Login failed:', error);
     }
   });
 
@@ -305,12 +1128,17 @@ program
 program
   .command('lookup <wallet>')
   .description('Look up an agent by wallet address')
-  .option('--rpc <url>', 'Custom RPC URL', 'https://api.mainnet-beta.solana.com')
+  .option('--strict', 'Treat an AgentCard that fails validation as unavailable')
+  .option('--pins <path>', 'Pin store file to check the card against', DEFAULT_PINS_PATH)
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
   .action(async (wallet, options) => {
     try {
       console.log(`🔍 Looking up ${wallet}...\n`);
       
-      const agent = await said.lookup(wallet);
+      const saidClient = createClient(options);
+      const agent = await saidClient.getAgent(wallet, { strict: options.strict });
       if (!agent) {
         console.log('❌ No agent found for this wallet.');
         process.exit(1);
@@ -323,19 +1151,56 @@ program
       console.log(`   Metadata: ${agent.metadataUri}`);
       console.log(`   Registered: ${new Date(agent.registeredAt * 1000).toISOString()}`);
       
-      // Fetch card if available
-      const card = await said.getCard(wallet);
+      const card = agent.card;
+      if (agent.cardError) {
+        console.log(`\n⚠️  Agent card unavailable: ${agent.cardError.message}`);
+      }
       if (card) {
         console.log('\n🎴 Agent Card:');
         console.log(`   Name: ${card.name}`);
         if (card.description) console.log(`   Description: ${card.description}`);
         if (card.twitter) console.log(`   Twitter: ${card.twitter}`);
         if (card.website) console.log(`   Website: ${card.website}`);
+        console.log(`   Signed by owner: ${agent.cardSignatureValid ? '✅ Yes' : '❌ No'}`);
+      }
+      if (agent.cardChanged) {
+        console.log(`\n⚠️  Card changed since pinned at ${agent.cardChanged.pinnedAt}`);
+        console.log(`   Pinned:  ${agent.cardChanged.pinnedHash}`);
+        console.log(`   Current: ${agent.cardChanged.currentHash}`);
+      }
+      if (agent.cardProblems) {
+        console.log('\n⚠️  Card problems:');
+        for (const problem of agent.cardProblems) console.log(`   - ${problem.message}`);
       }
       
-    } catch (error: any) {
-      console.error('❌ Lookup failed:', error.message);
-      process.exit(1);
+    } catch (error) {
+      exitWithError('❌ Lookup failed:', error);
+    }
+  });
+
+// ============ DID ============
+program
+  .command('did <wallet>')
+  .description("Resolve an agent's did:said DID Document (wallet address or DID)")
+  .option('--full', 'Print the whole resolution result, including metadata')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (wallet, options) => {
+    try {
+      const did = wallet.startsWith('did:') ? wallet : toDid(wallet);
+      const result = await createClient(options).resolveDid(did);
+      const { error, message } = result.didResolutionMetadata;
+      if (error) {
+        console.error(`❌ ${error}: ${message}`);
+        process.exit(error === 'notFound' ? 1 : error === 'invalidDid' ? EXIT_CODES.INVALID_ADDRESS : EXIT_CODES.RPC_UNAVAILABLE);
+      }
+      if (result.didDocumentMetadata.cardError) {
+        console.error(`⚠️  No services: ${result.didDocumentMetadata.cardError}`);
+      }
+      console.log(JSON.stringify(options.full ? result : result.didDocument, null, 2));
+    } catch (error) {
+      exitWithError('❌ DID resolution failed:', error);
     }
   });
 
@@ -345,33 +1210,127 @@ program
   .description('List all registered agents')
   .option('--verified', 'Only show verified agents')
   .option('--limit <n>', 'Limit results', '20')
+  .option('--offset <n>', 'Skip this many agents', '0')
+  .option('--sort <field>', 'Sort by key, registeredAt or verifiedAt; append :desc for newest first', 'key')
+  .option('--registered-after <date>', 'Only agents registered after this ISO date or Unix timestamp')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
   .action(async (options) => {
     try {
-      console.log('📋 Fetching agents...\n');
-      
-      const agents = await said.listAgents({ includeCards: true });
-      let filtered = agents;
-      
-      if (options.verified) {
-        filtered = agents.filter(a => a.isVerified);
+      const [sort, order = 'asc'] = String(options.sort).split(':');
+      if (!['key', 'registeredAt', 'verifiedAt'].includes(sort) || !['asc', 'desc'].includes(order)) {
+        throw new Error(`Invalid --sort "${options.sort}" (expected key, registeredAt or verifiedAt, optionally with :asc/:desc)`);
       }
+      let registeredAfter: number | undefined;
+      if (options.registeredAfter !== undefined) {
+        registeredAfter = /^\d+$/.test(options.registeredAfter)
+          ? Number(options.registeredAfter)
+          : Math.floor(Date.parse(options.registeredAfter) / 1000);
+        if (Number.isNaN(registeredAfter)) {
+          throw new Error(`Invalid --registered-after "${options.registeredAfter}"`);
+        }
+      }
+      const limit = parseCount('--limit', options.limit);
+      const offset = parseCount('--offset', options.offset);
+
+      console.log('📋 Fetching agents...\n');
+
+      // Cards are fetched for this page only
+      const page = await createClient(options).listAgentsPage({
+        includeCards: true,
+        verified: options.verified ? true : undefined,
+        registeredAfter,
+        sort: sort as 'key' | 'registeredAt' | 'verifiedAt',
+        order: order as 'asc' | 'desc',
+        limit,
+        offset
+      });
+
+      console.log(`Found ${page.total} agent(s)${options.verified ? ' (verified only)' : ''}:\n`);
       
-      const limited = filtered.slice(0, parseInt(options.limit));
-      
-      console.log(`Found ${filtered.length} agent(s)${options.verified ? ' (verified only)' : ''}:\n`);
-      
-      for (const agent of limited) {
+      for (const agent of page.agents) {
         const name = agent.card?.name || 'Unknown';
         const status = agent.isVerified ? '✅' : '⬜';
         console.log(`${status} ${name}`);
         console.log(`   Wallet: ${agent.owner}`);
+        if (sort !== 'key') console.log(`   Registered: ${new Date(agent.registeredAt * 1000).toISOString()}`);
         if (agent.card?.twitter) console.log(`   Twitter: ${agent.card.twitter}`);
+        if (agent.cardError) console.log(`   ⚠️  Card unavailable: ${agent.cardError.message}`);
         console.log('');
       }
+
+      const cardFailures = page.agents.filter((a) => a.cardError).length;
+      if (cardFailures > 0) {
+        console.log(`⚠️  ${cardFailures} card(s) could not be fetched`);
+      }
+      if (page.nextCursor) {
+        console.log(`More results: rerun with --offset ${offset + page.agents.length}`);
+      }
       
-    } catch (error: any) {
-      console.error('❌ List failed:', error.message);
-      process.exit(1);
+    } catch (error) {
+      exitWithError('❌ List failed:', error);
+    }
+  });
+
+// ============ WATCH ============
+program
+  .command('watch [wallet]')
+  .description('Stream registrations, verifications and metadata URI changes (one wallet, or the whole registry)')
+  .option('--json', 'Print one JSON object per line (NDJSON)')
+  .option('--stale-after <ms>', 'Resubscribe when the websocket is silent this long', '30000')
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (wallet, options) => {
+    const icons: Record<AgentEvent['type'], string> = {
+      registered: '🆕',
+      verified: '✅',
+      metadataUriChanged: '📝'
+    };
+    const print = (event: AgentEvent) => {
+      const { agent, previous } = event;
+      if (options.json) {
+        console.log(JSON.stringify({
+          type: event.type,
+          owner: agent.owner,
+          agentPDA: agent.pubkey,
+          metadataUri: agent.metadataUri,
+          previousMetadataUri: event.type === 'metadataUriChanged' ? previous?.metadataUri : undefined,
+          isVerified: agent.isVerified,
+          registeredAt: agent.registeredAt,
+          verifiedAt: agent.verifiedAt,
+          slot: event.slot,
+          observedAt: new Date().toISOString()
+        }));
+        return;
+      }
+      const detail = event.type === 'metadataUriChanged'
+        ? `${previous?.metadataUri} → ${agent.metadataUri}`
+        : agent.metadataUri;
+      console.log(`${icons[event.type]} ${event.type} ${agent.owner} ${detail}`);
+    };
+    // Status lines go to stderr so --json output stays pure NDJSON
+    const status = (message: string) => console.error(message);
+
+    try {
+      const saidClient = createClient(options);
+      const watchOptions = {
+        staleAfterMs: parseCount('--stale-after', options.staleAfter),
+        onResubscribe: () => status('🔌 Resubscribed after a silent websocket; missed changes were replayed'),
+        onError: (e: unknown) => status(`⚠️  ${e instanceof Error ? e.message : e} (retrying)`)
+      };
+      const watcher = wallet
+        ? await saidClient.watchAgent(wallet, print, watchOptions)
+        : await saidClient.watchRegistry(print, watchOptions);
+      status(`👀 Watching ${wallet ?? 'all agents'} (Ctrl+C to stop)`);
+
+      process.on('SIGINT', async () => {
+        await watcher.close();
+        process.exit(0);
+      });
+    } catch (error) {
+      exitWithError('❌ Watch failed:', error);
     }
   });
 
@@ -379,29 +1338,63 @@ program
 program
   .command('stats')
   .description('Show protocol statistics')
-  .action(async () => {
+  .option('--cluster <cluster>', 'Cluster: mainnet-beta, devnet, localnet or custom', 'mainnet-beta')
+  .option('--rpc <url>', 'Custom RPC URL (defaults to the cluster endpoint)')
+  .option('--program-id <address>', 'SAID program ID (required for custom cluster)')
+  .action(async (options) => {
     try {
-      const stats = await said.getStats();
+      const stats = await createClient(options).getStats();
       console.log('📊 SAID Protocol Stats:');
       console.log(`   Total Agents: ${stats.total}`);
       console.log(`   Verified: ${stats.verified}`);
       console.log(`   Unverified: ${stats.total - stats.verified}`);
-    } catch (error: any) {
-      console.error('❌ Stats failed:', error.message);
-      process.exit(1);
+    } catch (error) {
+      exitWithError('❌ Stats failed:', error);
     }
   });
 
 // ============ VERIFICATION HELPERS ============
 
-async function verifyTwitter(wallet: string, handle?: string): Promise<boolean> {
+/**
+ * Run the social proof check named by --method
+ */
+async function checkSocialProof(
+  saidClient: SAID,
+  wallet: string,
+  options: { method: string; handle?: string; domain?: string; repo?: string }
+): Promise<SocialProofClaim | null> {
+  switch (options.method as SocialPlatform) {
+    case 'twitter': return verifyTwitter(saidClient, wallet, options.handle);
+    case 'domain': return verifyDomain(wallet, options.domain);
+    case 'github': return verifyGithub(wallet, options.repo);
+    default: throw new Error(`Unknown verification method: ${options.method}`);
+  }
+}
+
+/**
+ * Sign a passed check into a credential and write it to disk
+ */
+async function saveCredential(claim: SocialProofClaim, wallet: Keypair, output?: string): Promise<void> {
+  const credential = await issueSocialCredential(claim, wallet);
+  const file = path.resolve(output ?? `said-${claim.platform}.credential.jwt`);
+  fs.writeFileSync(file, credential + '\n');
+  console.log(`   📜 Credential for ${claim.account} written to ${file}`);
+  console.log('   Add it to the "credentials" list in your AgentCard.');
+  console.log('   It is self-issued: consumers treat it as your claim and re-check it at the evidence URL.');
+}
+
+async function verifyTwitter(saidClient: SAID, wallet: string, handle?: string): Promise<SocialProofClaim | null> {
   if (!handle) {
     console.log('   ⚠️  No Twitter handle provided. Checking agent card...');
-    const card = await said.getCard(wallet);
-    handle = card?.twitter;
+    try {
+      const card = await saidClient.getCard(wallet);
+      handle = card?.twitter;
+    } catch (e) {
+      console.log(`   ⚠️  ${e instanceof Error ? e.message : e}`);
+    }
     if (!handle) {
       console.log('   ❌ No Twitter handle found in agent card.');
-      return false;
+      return null;
     }
   }
   
@@ -414,7 +1407,7 @@ async function verifyTwitter(wallet: string, handle?: string): Promise<boolean>
     if (res.ok) {
       const data = await res.json();
       if (data.verified === true) {
-        return true;  // ✅ FIX: Return early on success
+        return { wallet, platform: 'twitter', account: `@${handle}`, evidence: `https://x.com/${handle}` };
       }
     }
     
@@ -423,18 +1416,18 @@ async function verifyTwitter(wallet: string, handle?: string): Promise<boolean>
     console.log(`   1. Go to twitter.com/${handle}`);
     console.log(`   2. Add this to your bio: ${wallet}`);
     console.log(`   3. Run this command again`);
-    return false;
+    return null;
     
   } catch (e) {
     console.error('   ⚠️  API error:', e instanceof Error ? e.message : 'Unknown error');
-    return false;
+    return null;
   }
 }
 
-async function verifyDomain(wallet: string, domain?: string): Promise<boolean> {
+async function verifyDomain(wallet: string, domain?: string): Promise<SocialProofClaim | null> {
   if (!domain) {
     console.log('   ❌ No domain provided. Use --domain <domain>');
-    return false;
+    return null;
   }
   
   console.log(`   Checking ${domain}/.well-known/said.json...`);
@@ -447,27 +1440,27 @@ async function verifyDomain(wallet: string, domain?: string): Promise<boolean> {
       console.log(`   1. Create file: .well-known/said.json`);
       console.log(`   2. Contents: {"wallet":"${wallet}"}`);
       console.log(`   3. Run this command again`);
-      return false;
+      return null;
     }
     
     const data = await res.json();
     if (data.wallet === wallet) {
-      return true;
+      return { wallet, platform: 'domain', account: domain.toLowerCase(), evidence: `https://${domain}/.well-known/said.json` };
     }
     
     console.log(`   ❌ Wallet mismatch. Expected ${wallet}, got ${data.wallet}`);
-    return false;
+    return null;
     
   } catch (e) {
     console.log(`   ❌ Error fetching domain verification file.`);
-    return false;
+    return null;
   }
 }
 
-async function verifyGithub(wallet: string, repo?: string): Promise<boolean> {
+async function verifyGithub(wallet: string, repo?: string): Promise<SocialProofClaim | null> {
   if (!repo) {
     console.log('   ❌ No repo provided. Use --repo <owner/repo>');
-    return false;
+    return null;
   }
   
   console.log(`   Checking github.com/${repo}/blob/main/SAID.md...`);
@@ -480,20 +1473,20 @@ async function verifyGithub(wallet: string, repo?: string): Promise<boolean> {
       console.log(`   1. Create file: SAID.md in your repo root`);
       console.log(`   2. Contents: wallet: ${wallet}`);
       console.log(`   3. Run this command again`);
-      return false;
+      return null;
     }
     
     const content = await res.text();
     if (content.includes(wallet)) {
-      return true;
+      return { wallet, platform: 'github', account: repo, evidence: `https://github.com/${repo}/blob/main/SAID.md` };
     }
     
     console.log(`   ❌ Wallet address not found in SAID.md`);
-    return false;
+    return null;
     
   } catch (e) {
     console.log(`   ❌ Error fetching GitHub verification file.`);
-    return false;
+    return null;
   }
 }
 
@@ -0,0 +1,96 @@
+import { PublicKey } from '@solana/web3.js';
+
+// SAID Program (same program ID is deployed on every public cluster)
+export const SAID_PROGRAM_ID = new PublicKey('5dpw6KEQPn248pnkkaYyWfHwu2nfb3LUMbTucb6LaA8G');
+export const TREASURY_PDA = new PublicKey('2XfHTeNWTjNwUmgoXaafYuqHcAAXj8F5Kjw2Bnzi4FxH');
+export const VERIFICATION_FEE = 10_000_000; // 0.01 SOL in lamports, paid into the treasury
+
+/**
+ * Solana cluster the SDK talks to
+ */
+export type SAIDCluster = 'mainnet-beta' | 'devnet' | 'localnet' | 'custom';
+
+/**
+ * Fully resolved network settings for a cluster
+ */
+export interface ClusterConfig {
+  cluster: SAIDCluster;
+  programId: PublicKey;
+  treasuryPDA: PublicKey;
+  rpcUrl: string;
+  explorerUrl: string;
+}
+
+/**
+ * Overrides accepted when resolving a cluster
+ */
+export interface ClusterOverrides {
+  rpcUrl?: string;
+  programId?: PublicKey | string;
+  treasury?: PublicKey | string;
+}
+
+const DEFAULT_RPC_URLS: Record<Exclude<SAIDCluster, 'custom'>, string> = {
+  'mainnet-beta': 'https://api.mainnet-beta.solana.com',
+  'devnet': 'https://api.devnet.solana.com',
+  'localnet': 'http://127.0.0.1:8899',
+};
+
+export const CLUSTERS: SAIDCluster[] = ['mainnet-beta', 'devnet', 'localnet', 'custom'];
+
+/**
+ * Derive the treasury PDA that collects verification fees for a program
+ */
+export function deriveTreasuryPDA(programId: PublicKey = SAID_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from('treasury')], programId)[0];
+}
+
+/**
+ * Resolve program ID, treasury, RPC and explorer settings for a cluster
+ */
+export function resolveCluster(
+  cluster: SAIDCluster = 'mainnet-beta',
+  overrides: ClusterOverrides = {}
+): ClusterConfig {
+  if (!CLUSTERS.includes(cluster)) {
+    throw new Error(`Unknown cluster: ${cluster} (expected one of ${CLUSTERS.join(', ')})`);
+  }
+  if (cluster === 'custom' && (!overrides.rpcUrl || !overrides.programId)) {
+    throw new Error('Custom cluster requires both rpcUrl and programId');
+  }
+
+  const programId = overrides.programId
+    ? new PublicKey(overrides.programId)
+    : SAID_PROGRAM_ID;
+  const treasuryPDA = overrides.treasury
+    ? new PublicKey(overrides.treasury)
+    : programId.equals(SAID_PROGRAM_ID) ? TREASURY_PDA : deriveTreasuryPDA(programId);
+  const rpcUrl = overrides.rpcUrl || DEFAULT_RPC_URLS[cluster as Exclude<SAIDCluster, 'custom'>];
+
+  return {
+    cluster,
+    programId,
+    treasuryPDA,
+    rpcUrl,
+    explorerUrl: 'https://solscan.io'
+  };
+}
+
+/**
+ * Build an explorer link for a transaction or account on the given cluster
+ */
+export function getExplorerUrl(
+  config: ClusterConfig,
+  kind: 'tx' | 'account',
+  value: string
+): string {
+  const base = `${config.explorerUrl}/${kind}/${value}`;
+  switch (config.cluster) {
+    case 'mainnet-beta':
+      return base;
+    case 'devnet':
+      return `${base}?cluster=devnet`;
+    default:
+      return `${base}?cluster=custom&customUrl=${encodeURIComponent(config.rpcUrl)}`;
+  }
+}
@@ -0,0 +1,123 @@
+import { PublicKey } from '@solana/web3.js';
+import { AccountMalformedError } from './errors';
+
+export const AGENT_ACCOUNT_SIZE = 263;
+export const MAX_METADATA_URI_LENGTH = 200;
+
+// Anchor discriminator for accounts (SHA256("account:AgentIdentity")[0..8])
+export const AGENT_ACCOUNT_DISCRIMINATOR = Buffer.from([11, 149, 31, 27, 186, 76, 241, 72]);
+
+// Anchor discriminator for instructions (SHA256("global:<instruction_name>")[0..8])
+export const REGISTER_AGENT_DISCRIMINATOR = Buffer.from([135, 157, 66, 195, 2, 113, 175, 30]);
+export const GET_VERIFIED_DISCRIMINATOR = Buffer.from([132, 231, 2, 30, 115, 74, 23, 26]);
+
+/**
+ * Decoded agent account
+ *
+ * Layout (Borsh, after the 8-byte discriminator):
+ *   owner            Pubkey   32
+ *   metadata_uri     String   4 + len (max 200)
+ *   registered_at    i64      8
+ *   is_verified      bool     1
+ *   verified_at      i64      8
+ *   reputation_score u16      2   (0 = not scored yet)
+ *   reserved         [u8]     rest of the 263-byte account
+ */
+export interface AgentAccountData {
+  owner: string;
+  metadataUri: string;
+  registeredAt: number;
+  isVerified: boolean;
+  verifiedAt: number;
+  reputationScore: number;
+  reserved: Buffer;
+}
+
+/**
+ * Encode/decode SAID agent accounts
+ */
+export const AgentAccountCodec = {
+  /**
+   * Check size and discriminator without decoding
+   */
+  isAgentAccount(data: Buffer | Uint8Array): boolean {
+    return data.length === AGENT_ACCOUNT_SIZE &&
+      Buffer.from(data.subarray(0, 8)).equals(AGENT_ACCOUNT_DISCRIMINATOR);
+  },
+
+  /**
+   * Decode raw account data
+   *
+   * @param data - Raw account bytes
+   * @param pubkey - Account address, used in error messages
+   */
+  decode(data: Buffer | Uint8Array, pubkey: string = 'unknown'): AgentAccountData {
+    const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+    if (buf.length !== AGENT_ACCOUNT_SIZE) {
+      throw new AccountMalformedError(
+        pubkey,
+        `invalid account data size: expected ${AGENT_ACCOUNT_SIZE}, got ${buf.length}`
+      );
+    }
+    if (!buf.subarray(0, 8).equals(AGENT_ACCOUNT_DISCRIMINATOR)) {
+      throw new AccountMalformedError(pubkey, 'account discriminator mismatch');
+    }
+
+    const owner = new PublicKey(buf.subarray(8, 40)).toString();
+
+    const uriLength = buf.readUInt32LE(40);
+    if (uriLength > MAX_METADATA_URI_LENGTH) {
+      throw new AccountMalformedError(pubkey, 'malformed metadata URI length');
+    }
+    const metadataUri = buf.subarray(44, 44 + uriLength).toString('utf8');
+
+    const offset = 44 + uriLength;
+    const registeredAt = Number(buf.readBigInt64LE(offset));
+    const verifiedFlag = buf[offset + 8];
+    if (verifiedFlag > 1) {
+      throw new AccountMalformedError(pubkey, `invalid is_verified flag: ${verifiedFlag}`);
+    }
+    const verifiedAt = Number(buf.readBigInt64LE(offset + 9));
+    const reputationScore = buf.readUInt16LE(offset + 17);
+
+    return {
+      owner,
+      metadataUri,
+      registeredAt,
+      isVerified: verifiedFlag === 1,
+      verifiedAt,
+      reputationScore,
+      reserved: Buffer.from(buf.subarray(offset + 19))
+    };
+  },
+
+  /**
+   * Encode an agent account (e.g. for test fixtures and emulators)
+   *
+   * Reserved bytes are zero-filled unless provided, and truncated to the
+   * space left after the metadata URI.
+   */
+  encode(account: Omit<AgentAccountData, 'reputationScore' | 'reserved'> &
+    Partial<Pick<AgentAccountData, 'reputationScore' | 'reserved'>>): Buffer {
+    const uriBytes = Buffer.from(account.metadataUri, 'utf8');
+    if (uriBytes.length > MAX_METADATA_URI_LENGTH) {
+      throw new Error(`Metadata URI too long: ${uriBytes.length} bytes (max ${MAX_METADATA_URI_LENGTH})`);
+    }
+
+    const buf = Buffer.alloc(AGENT_ACCOUNT_SIZE);
+    AGENT_ACCOUNT_DISCRIMINATOR.copy(buf, 0);
+    new PublicKey(account.owner).toBuffer().copy(buf, 8);
+    buf.writeUInt32LE(uriBytes.length, 40);
+    uriBytes.copy(buf, 44);
+
+    const offset = 44 + uriBytes.length;
+    buf.writeBigInt64LE(BigInt(account.registeredAt), offset);
+    buf[offset + 8] = account.isVerified ? 1 : 0;
+    buf.writeBigInt64LE(BigInt(account.verifiedAt), offset + 9);
+    buf.writeUInt16LE(account.reputationScore ?? 0, offset + 17);
+    account.reserved?.copy(buf, offset + 19, 0, AGENT_ACCOUNT_SIZE - offset - 19);
+
+    return buf;
+  }
+};
@@ -0,0 +1,203 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { randomBytes } from 'crypto';
+import { AuthError, toPublicKey } from './errors';
+import { toDid, walletFromDid } from './did';
+import { MessageSignerLike, fromBase64url, signMessage, toBase64url, verifyMessage } from './signer';
+
+/**
+ * Where a social proof was published
+ */
+export type SocialPlatform = 'twitter' | 'domain' | 'github';
+
+// How each platform's proof is checked
+export const SOCIAL_PROOF_METHODS: Record<SocialPlatform, string> = {
+  twitter: 'twitter-bio',          // Wallet address in the profile bio
+  domain: 'well-known-said-json',  // {"wallet": ...} at https://<domain>/.well-known/said.json
+  github: 'github-said-md'         // Wallet address in SAID.md on the main branch
+};
+
+/**
+ * A successful social proof check, to be signed into a credential
+ */
+export interface SocialProofClaim {
+  wallet: string;
+  platform: SocialPlatform;
+  account: string;    // '@handle', 'example.com' or 'owner/repo'
+  evidence?: string;  // URL where the proof can be re-checked
+  checkedAt?: number; // Unix seconds (default now)
+}
+
+/**
+ * A verified social proof credential
+ */
+export interface SocialCredential {
+  id: string;
+  issuer: string;       // Wallet that signed the credential
+  wallet: string;       // Wallet that proved the account
+  platform: SocialPlatform;
+  account: string;
+  method: string;       // See SOCIAL_PROOF_METHODS
+  evidence?: string;
+  issuedAt: number;     // Unix seconds the check ran
+  expiresAt?: number;
+  selfIssued: boolean;  // Signed by `wallet` itself: only a claim, not a checked proof
+}
+
+/**
+ * Options for issueSocialCredential
+ */
+export interface IssueCredentialOptions {
+  ttlSeconds?: number; // No expiry by default
+}
+
+/**
+ * Options for verifySocialCredential
+ */
+export interface VerifyCredentialOptions {
+  wallet?: string | PublicKey;              // Required subject wallet
+  trustedIssuers?: (string | PublicKey)[];  // Third-party checkers to accept
+  allowSelfIssued?: boolean;                // Accept credentials the subject signed itself (default false)
+  now?: () => number;                       // Unix seconds
+}
+
+const VC_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+const CREDENTIAL_TYPE = 'SocialProofCredential';
+const MAX_CLOCK_SKEW_SECONDS = 60;
+
+// JWT-VC payload (VC Data Model 1.1, JWT encoding)
+interface CredentialPayload {
+  iss: string;
+  sub: string;
+  jti: string;
+  nbf: number;
+  iat: number;
+  exp?: number;
+  vc: {
+    '@context': string[];
+    type: string[];
+    credentialSubject: { id: string; platform: SocialPlatform; account: string };
+    evidence: { type: string[]; method: string; url?: string }[];
+  };
+}
+
+/**
+ * Sign a social proof as a W3C Verifiable Credential (compact JWS, EdDSA)
+ *
+ * Issuer and subject are did:said DIDs. The agent wallet can issue its own
+ * credentials; a service that ran the check can issue them with its key.
+ *
+ * @param claim - What was proved, by which wallet
+ * @param issuer - Keypair or message signer of the issuer
+ */
+export async function issueSocialCredential(
+  claim: SocialProofClaim,
+  issuer: MessageSignerLike,
+  options: IssueCredentialOptions = {}
+): Promise<string> {
+  const issuedAt = claim.checkedAt ?? Math.floor(Date.now() / 1000);
+  const subject = toDid(claim.wallet);
+  const payload: CredentialPayload = {
+    iss: toDid(issuer.publicKey),
+    sub: subject,
+    jti: `urn:said:credential:${bs58.encode(randomBytes(16))}`,
+    nbf: issuedAt,
+    iat: issuedAt,
+    exp: options.ttlSeconds !== undefined ? issuedAt + options.ttlSeconds : undefined,
+    vc: {
+      '@context': [VC_CONTEXT],
+      type: ['VerifiableCredential', CREDENTIAL_TYPE],
+      credentialSubject: { id: subject, platform: claim.platform, account: claim.account },
+      evidence: [{ type: ['SocialProofCheck'], method: SOCIAL_PROOF_METHODS[claim.platform], url: claim.evidence }]
+    }
+  };
+
+  const header = { alg: 'EdDSA', typ: 'JWT', kid: `${payload.iss}#owner` };
+  const unsigned = `${toBase64url(JSON.stringify(header))}.${toBase64url(JSON.stringify(payload))}`;
+  const signature = await signMessage(new TextEncoder().encode(unsigned), issuer);
+  return `${unsigned}.${toBase64url(signature)}`;
+}
+
+function parseSegment<T>(segment: string, what: string): T {
+  try {
+    return JSON.parse(fromBase64url(segment).toString('utf8'));
+  } catch (e) {
+    throw new AuthError('MALFORMED', `Credential ${what} is not base64url JSON`, e);
+  }
+}
+
+/**
+ * Check a social proof credential's signature, expiry, subject and issuer
+ *
+ * The issuer must be listed in `trustedIssuers`. A self-issued credential
+ * only shows what the wallet claims about itself, so it is rejected unless
+ * `allowSelfIssued` is set. Throws AuthError with reason MALFORMED,
+ * BAD_SIGNATURE, EXPIRED, SUBJECT_MISMATCH or UNTRUSTED_ISSUER.
+ */
+export function verifySocialCredential(jws: string, options: VerifyCredentialOptions = {}): SocialCredential {
+  const parts = jws.trim().split('.');
+  if (parts.length !== 3) throw new AuthError('MALFORMED', 'Credential is not a compact JWS');
+
+  const header = parseSegment<{ alg?: string }>(parts[0], 'header');
+  const payload = parseSegment<CredentialPayload>(parts[1], 'payload');
+  if (header.alg !== 'EdDSA') {
+    throw new AuthError('MALFORMED', `Unsupported credential algorithm ${header.alg}`);
+  }
+  const subject = payload.vc?.credentialSubject;
+  if (!payload.vc?.type?.includes(CREDENTIAL_TYPE) || !subject || subject.id !== payload.sub) {
+    throw new AuthError('MALFORMED', 'Not a SAID social proof credential');
+  }
+  if (!Object.prototype.hasOwnProperty.call(SOCIAL_PROOF_METHODS, subject.platform) || typeof subject.account !== 'string') {
+    throw new AuthError('MALFORMED', `Unsupported social proof platform ${String(subject.platform)}`);
+  }
+
+  let issuer: PublicKey;
+  let wallet: PublicKey;
+  try {
+    issuer = walletFromDid(payload.iss);
+    wallet = walletFromDid(payload.sub);
+  } catch (e) {
+    throw new AuthError('MALFORMED', 'Credential issuer and subject must be did:said DIDs', e);
+  }
+
+  const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  if (!verifyMessage(signed, fromBase64url(parts[2]), issuer)) {
+    throw new AuthError('BAD_SIGNATURE', `Credential signature does not match issuer ${issuer.toBase58()}`);
+  }
+
+  const now = (options.now ?? (() => Math.floor(Date.now() / 1000)))();
+  if (payload.exp !== undefined && now >= payload.exp) {
+    throw new AuthError('EXPIRED', 'Credential has expired');
+  }
+  if (payload.nbf > now + MAX_CLOCK_SKEW_SECONDS) {
+    throw new AuthError('MALFORMED', 'Credential is not valid yet');
+  }
+  if (options.wallet !== undefined && !wallet.equals(toPublicKey(options.wallet))) {
+    throw new AuthError('SUBJECT_MISMATCH', `Credential is about ${wallet.toBase58()}, not ${options.wallet.toString()}`);
+  }
+
+  const selfIssued = issuer.equals(wallet);
+  const trusted = (options.trustedIssuers ?? []).some((key) => toPublicKey(key).equals(issuer));
+  if (!trusted && !(selfIssued && options.allowSelfIssued)) {
+    throw new AuthError(
+      'UNTRUSTED_ISSUER',
+      selfIssued
+        ? `Credential is self-issued by ${issuer.toBase58()}; self-issued claims are not accepted`
+        : `Credential issuer ${issuer.toBase58()} is not trusted`
+    );
+  }
+
+  const evidence = payload.vc.evidence?.[0];
+  return {
+    id: payload.jti,
+    issuer: issuer.toBase58(),
+    wallet: wallet.toBase58(),
+    platform: subject.platform,
+    account: subject.account,
+    method: evidence?.method ?? SOCIAL_PROOF_METHODS[subject.platform],
+    evidence: evidence?.url,
+    issuedAt: payload.iat,
+    expiresAt: payload.exp,
+    selfIssued
+  };
+}
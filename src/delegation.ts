@@ -0,0 +1,252 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { randomBytes } from 'crypto';
+import { AuthError, toPublicKey } from './errors';
+import { canonicalJson } from './signed-card';
+import { MessageSignerLike, signMessage, verifyMessage } from './signer';
+
+// Scopes checked by the SDK's own verifiers; services may define more
+export const DELEGATION_SCOPES = {
+  requests: 'requests', // Signed HTTP requests (signRequest / createRequestVerifier)
+  sessions: 'sessions'  // Sign-in challenges (signChallenge / verifyChallenge)
+} as const;
+
+/**
+ * What an owner wallet authorizes an operator key to do
+ */
+export interface DelegationCert {
+  id: string;         // Random, base58; named in revocation lists
+  owner: string;      // Owner wallet behind the agent PDA
+  operator: string;   // Hot key allowed to sign for the owner
+  scopes: string[];
+  issuedAt: number;   // Unix seconds
+  expiresAt: number;  // Unix seconds
+  label?: string;     // Free text, e.g. the host the key lives on
+}
+
+/**
+ * A delegation certificate signed by the owner wallet
+ */
+export interface SignedDelegation {
+  type: 'said-delegation';
+  version: 1;
+  cert: DelegationCert;
+  signature: string; // base58 ed25519 signature over DELEGATION_TAG + canonicalJson(cert)
+}
+
+/**
+ * Owner-signed list of revoked delegation ids (hosted JSON)
+ *
+ * The card's `revocationList` field points at it. Lists are replaced
+ * wholesale, so each one carries every id revoked so far.
+ */
+export interface RevocationList {
+  type: 'said-revocations';
+  version: 1;
+  owner: string;
+  revoked: string[];
+  updatedAt: number; // Unix seconds
+  signature: string; // base58 ed25519 signature over REVOCATIONS_TAG + canonicalJson({ owner, revoked, updatedAt })
+}
+
+/**
+ * Options for issueDelegation
+ */
+export interface IssueDelegationOptions {
+  scopes: string[];
+  ttlSeconds?: number; // Default 30 days
+  label?: string;
+  now?: () => number;  // Unix seconds
+}
+
+/**
+ * Options for verifyDelegation
+ */
+export interface VerifyDelegationOptions {
+  owner?: string | PublicKey;        // Required owner wallet
+  operator?: string | PublicKey;     // Required operator key
+  scope?: string;                    // Scope the cert must grant
+  revocations?: RevocationList | null; // Owner's current list; null when none is hosted
+  now?: () => number;
+}
+
+// Prefixed to every signed message, so an owner signature over one kind of
+// SAID object (a card, say) never verifies as another
+const DELEGATION_TAG = 'SAID-DELEGATION-V1\n';
+const REVOCATIONS_TAG = 'SAID-REVOCATIONS-V1\n';
+
+const DEFAULT_DELEGATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_CLOCK_SKEW_SECONDS = 60;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Check whether parsed JSON is a signed delegation certificate
+ */
+export function isSignedDelegation(value: unknown): value is SignedDelegation {
+  const delegation = value as SignedDelegation | null;
+  return (
+    typeof delegation === 'object' &&
+    delegation !== null &&
+    delegation.type === 'said-delegation' &&
+    typeof delegation.cert === 'object' &&
+    delegation.cert !== null &&
+    typeof delegation.cert.owner === 'string' &&
+    typeof delegation.cert.operator === 'string' &&
+    Array.isArray(delegation.cert.scopes) &&
+    typeof delegation.signature === 'string'
+  );
+}
+
+/**
+ * Check whether parsed JSON is a revocation list
+ */
+export function isRevocationList(value: unknown): value is RevocationList {
+  const list = value as RevocationList | null;
+  return (
+    typeof list === 'object' &&
+    list !== null &&
+    list.type === 'said-revocations' &&
+    typeof list.owner === 'string' &&
+    Array.isArray(list.revoked) &&
+    typeof list.signature === 'string'
+  );
+}
+
+/**
+ * Authorize an operator key to sign for the owner wallet
+ *
+ * @param owner - Owner keypair, or a wallet adapter with signMessage
+ * @param operator - Public key of the hot key that will sign requests
+ */
+export async function issueDelegation(
+  owner: MessageSignerLike,
+  operator: string | PublicKey,
+  options: IssueDelegationOptions
+): Promise<SignedDelegation> {
+  const operatorKey = toPublicKey(operator);
+  if (operatorKey.equals(owner.publicKey)) {
+    throw new Error('Operator key must differ from the owner wallet');
+  }
+  if (options.scopes.length === 0) {
+    throw new Error('A delegation needs at least one scope');
+  }
+
+  const issuedAt = (options.now ?? nowSeconds)();
+  const cert: DelegationCert = {
+    id: bs58.encode(randomBytes(16)),
+    owner: owner.publicKey.toBase58(),
+    operator: operatorKey.toBase58(),
+    scopes: [...options.scopes],
+    issuedAt,
+    expiresAt: issuedAt + (options.ttlSeconds ?? DEFAULT_DELEGATION_TTL_SECONDS),
+    label: options.label
+  };
+  const signature = await signMessage(new TextEncoder().encode(DELEGATION_TAG + canonicalJson(cert)), owner);
+  return { type: 'said-delegation', version: 1, cert, signature: bs58.encode(signature) };
+}
+
+/**
+ * Sign the full list of revoked delegation ids with the owner wallet
+ */
+export async function signRevocations(
+  owner: MessageSignerLike,
+  revoked: string[],
+  options: { now?: () => number } = {}
+): Promise<RevocationList> {
+  const body = {
+    owner: owner.publicKey.toBase58(),
+    revoked: Array.from(new Set(revoked)).sort(),
+    updatedAt: (options.now ?? nowSeconds)()
+  };
+  const signature = await signMessage(new TextEncoder().encode(REVOCATIONS_TAG + canonicalJson(body)), owner);
+  return { type: 'said-revocations', version: 1, ...body, signature: bs58.encode(signature) };
+}
+
+function verifiesAs(tag: string, message: unknown, signature: string, key: string): boolean {
+  try {
+    return verifyMessage(new TextEncoder().encode(tag + canonicalJson(message)), bs58.decode(signature), new PublicKey(key));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a revocation list was signed by the given owner wallet
+ */
+export function verifyRevocations(list: RevocationList, owner: string | PublicKey): boolean {
+  if (list.version !== 1 || list.owner !== toPublicKey(owner).toBase58()) return false;
+  return verifiesAs(REVOCATIONS_TAG, { owner: list.owner, revoked: list.revoked, updatedAt: list.updatedAt }, list.signature, list.owner);
+}
+
+/**
+ * Throw unless the owner's revocation list leaves the certificate in force
+ */
+export function assertNotRevoked(cert: DelegationCert, revocations: RevocationList | null): void {
+  if (!revocations) return;
+  if (!verifyRevocations(revocations, cert.owner)) {
+    throw new AuthError('BAD_DELEGATION', `Revocation list is not signed by owner ${cert.owner}`);
+  }
+  if (revocations.revoked.includes(cert.id)) {
+    throw new AuthError('REVOKED', `Delegation ${cert.id} was revoked by ${cert.owner}`);
+  }
+}
+
+/**
+ * Check a delegation's owner signature, expiry, scope and revocation status
+ *
+ * This proves the owner authorized the operator key; the caller still has
+ * to check the operator's own signature and that `cert.owner` holds an
+ * on-chain identity. Throws AuthError with reason BAD_DELEGATION, EXPIRED,
+ * SCOPE_DENIED or REVOKED.
+ */
+export function verifyDelegation(delegation: SignedDelegation, options: VerifyDelegationOptions = {}): DelegationCert {
+  if (!isSignedDelegation(delegation) || delegation.version !== 1) {
+    throw new AuthError('BAD_DELEGATION', 'Not a SAID delegation certificate');
+  }
+  const { cert } = delegation;
+  if (options.owner !== undefined && cert.owner !== toPublicKey(options.owner).toBase58()) {
+    throw new AuthError('BAD_DELEGATION', `Delegation is from ${cert.owner}, not ${options.owner.toString()}`);
+  }
+  if (options.operator !== undefined && cert.operator !== toPublicKey(options.operator).toBase58()) {
+    throw new AuthError('BAD_DELEGATION', `Delegation is for operator ${cert.operator}, not ${options.operator.toString()}`);
+  }
+  if (!verifiesAs(DELEGATION_TAG, cert, delegation.signature, cert.owner)) {
+    throw new AuthError('BAD_DELEGATION', `Delegation signature does not match owner ${cert.owner}`);
+  }
+
+  const now = (options.now ?? nowSeconds)();
+  if (now >= cert.expiresAt) {
+    throw new AuthError('EXPIRED', `Delegation ${cert.id} has expired`);
+  }
+  if (cert.issuedAt > now + MAX_CLOCK_SKEW_SECONDS) {
+    throw new AuthError('BAD_DELEGATION', `Delegation ${cert.id} is issued in the future`);
+  }
+  if (options.scope !== undefined && !cert.scopes.includes(options.scope)) {
+    throw new AuthError('SCOPE_DENIED', `Delegation ${cert.id} does not grant scope "${options.scope}"`);
+  }
+  if (options.revocations !== undefined) assertNotRevoked(cert, options.revocations);
+  return cert;
+}
+
+/**
+ * Encode a delegation for an HTTP header (base64 JSON)
+ */
+export function encodeDelegation(delegation: SignedDelegation): string {
+  return Buffer.from(JSON.stringify(delegation), 'utf8').toString('base64');
+}
+
+/**
+ * Decode a delegation header; throws AuthError BAD_DELEGATION when malformed
+ */
+export function decodeDelegation(text: string): SignedDelegation {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(text, 'base64').toString('utf8'));
+  } catch (e) {
+    throw new AuthError('BAD_DELEGATION', 'Delegation header is not base64 JSON', e);
+  }
+  if (!isSignedDelegation(value)) {
+    throw new AuthError('BAD_DELEGATION', 'Delegation header does not hold a SAID delegation certificate');
+  }
+  return value;
+}
@@ -0,0 +1,177 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { AgentCard } from './card';
+import { InvalidAddressError, toPublicKey } from './errors';
+import type { AgentIdentity } from './index';
+
+// Structural types matching the `did-resolver` package, so the SDK does not depend on it
+
+/**
+ * A public key in a DID Document
+ */
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase: string;
+}
+
+/**
+ * A service endpoint in a DID Document
+ */
+export interface DIDService {
+  id: string;
+  type: string;
+  serviceEndpoint: string;
+}
+
+/**
+ * W3C DID Document for a SAID agent
+ */
+export interface DIDDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: VerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+  service?: DIDService[];
+}
+
+/**
+ * Resolution outcome; `error` uses the DID Core error names
+ */
+export interface DIDResolutionMetadata {
+  contentType?: string;
+  error?: 'invalidDid' | 'notFound' | 'internalError';
+  message?: string;
+}
+
+/**
+ * On-chain registration state of the DID subject
+ */
+export interface DIDDocumentMetadata {
+  created?: string;    // ISO form of registeredAt
+  agentPDA?: string;
+  registeredAt?: number; // Unix timestamp
+  isVerified?: boolean;
+  verifiedAt?: number;   // Unix timestamp (0 if not verified)
+  cardError?: string;    // Why services could not be read from the card
+}
+
+export interface DIDResolutionResult {
+  didResolutionMetadata: DIDResolutionMetadata;
+  didDocument: DIDDocument | null;
+  didDocumentMetadata: DIDDocumentMetadata;
+}
+
+/**
+ * The parts of a parsed DID URL the resolver uses (did-resolver's ParsedDID)
+ */
+export interface ParsedDID {
+  did: string;
+  method: string;
+  id: string;
+}
+
+export type DIDResolver = (
+  did: string,
+  parsed?: ParsedDID,
+  resolver?: unknown,
+  options?: unknown
+) => Promise<DIDResolutionResult>;
+
+export const DID_METHOD = 'said';
+export const DID_CONTENT_TYPE = 'application/did+ld+json';
+
+const DID_CONTEXT = ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'];
+const SAID_DID = /^did:said:([1-9A-HJ-NP-Za-km-z]{32,44})$/;
+
+// Multicodec prefix for an ed25519 public key
+const ED25519_PUB_MULTICODEC = [0xed, 0x01];
+
+// Card fields published as DID services
+const CARD_SERVICES = [
+  { field: 'mcpEndpoint', fragment: 'mcp', type: 'MCPEndpoint' },
+  { field: 'a2aEndpoint', fragment: 'a2a', type: 'A2AEndpoint' },
+  { field: 'website', fragment: 'website', type: 'LinkedDomains' }
+] as const;
+
+/**
+ * The did:said DID of an owner wallet
+ */
+export function toDid(wallet: string | PublicKey): string {
+  return `did:${DID_METHOD}:${toPublicKey(wallet).toBase58()}`;
+}
+
+/**
+ * The owner wallet named by a did:said DID
+ *
+ * Throws InvalidAddressError for any other DID or a malformed wallet.
+ */
+export function walletFromDid(did: string): PublicKey {
+  const match = did.match(SAID_DID);
+  if (!match) throw new InvalidAddressError(did);
+  try {
+    return new PublicKey(match[1]);
+  } catch {
+    throw new InvalidAddressError(did);
+  }
+}
+
+/**
+ * Build the DID Document for an agent
+ *
+ * The owner wallet is the only verification method; card endpoints become
+ * services.
+ */
+export function buildDidDocument(agent: AgentIdentity, card?: AgentCard | null): DIDDocument {
+  const id = toDid(agent.owner);
+  const keyId = `${id}#owner`;
+  const key = new PublicKey(agent.owner).toBytes();
+
+  const document: DIDDocument = {
+    '@context': DID_CONTEXT,
+    id,
+    verificationMethod: [{
+      id: keyId,
+      type: 'Ed25519VerificationKey2020',
+      controller: id,
+      publicKeyMultibase: `z${bs58.encode(Uint8Array.from([...ED25519_PUB_MULTICODEC, ...key]))}`
+    }],
+    authentication: [keyId],
+    assertionMethod: [keyId]
+  };
+
+  const service = CARD_SERVICES
+    .filter(({ field }) => typeof card?.[field] === 'string')
+    .map(({ field, fragment, type }) => ({ id: `${id}#${fragment}`, type, serviceEndpoint: card![field] as string }));
+  if (service.length > 0) document.service = service;
+  return document;
+}
+
+/**
+ * Document metadata carrying the agent's on-chain registration state
+ */
+export function didDocumentMetadata(agent: AgentIdentity): DIDDocumentMetadata {
+  return {
+    created: new Date(agent.registeredAt * 1000).toISOString(),
+    agentPDA: agent.pubkey,
+    registeredAt: agent.registeredAt,
+    isVerified: agent.isVerified,
+    verifiedAt: agent.verifiedAt
+  };
+}
+
+/**
+ * A did-resolver registry entry for did:said
+ *
+ * @example
+ * import { Resolver } from 'did-resolver';
+ * const resolver = new Resolver(getResolver(new SAID()));
+ * const { didDocument } = await resolver.resolve('did:said:42xhLbEm...');
+ */
+export function getResolver(client: { resolveDid(did: string): Promise<DIDResolutionResult> }): Record<string, DIDResolver> {
+  return {
+    [DID_METHOD]: (did, parsed) => client.resolveDid(parsed?.did ?? did)
+  };
+}
@@ -0,0 +1,166 @@
+import { PublicKey } from '@solana/web3.js';
+import type { CardProblem } from './card';
+
+/**
+ * Stable error codes for every SAID SDK failure
+ */
+export type SAIDErrorCode =
+  | 'INVALID_ADDRESS'
+  | 'RPC_UNAVAILABLE'
+  | 'ACCOUNT_MALFORMED'
+  | 'CARD_FETCH_FAILED'
+  | 'CARD_INVALID'
+  | 'TRANSACTION_FAILED'
+  | 'KEYSTORE_INVALID'
+  | 'UNAUTHORIZED'
+  | 'INVALID_CURSOR';
+
+/**
+ * Why a signed request or credential was rejected
+ */
+export type AuthFailureReason =
+  | 'MISSING_SIGNATURE'
+  | 'MALFORMED'
+  | 'STALE_TIMESTAMP'
+  | 'NONCE_REUSED'
+  | 'BAD_SIGNATURE'
+  | 'EXPIRED'
+  | 'WRONG_AUDIENCE'
+  | 'NOT_REGISTERED'
+  | 'NOT_VERIFIED'
+  | 'BAD_DELEGATION'
+  | 'SCOPE_DENIED'
+  | 'REVOKED'
+  | 'SUBJECT_MISMATCH'
+  | 'UNTRUSTED_ISSUER';
+
+/**
+ * Base class for all errors thrown by the SDK
+ */
+export class SAIDError extends Error {
+  readonly code: SAIDErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: SAIDErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Input is not a valid base58 Solana address
+ */
+export class InvalidAddressError extends SAIDError {
+  constructor(readonly address: string) {
+    super('INVALID_ADDRESS', `Invalid wallet address: ${address}`);
+  }
+}
+
+/**
+ * The RPC node could not be reached or returned an error
+ */
+export class RpcUnavailableError extends SAIDError {
+  constructor(message: string, cause?: unknown) {
+    super('RPC_UNAVAILABLE', `${message}: ${describe(cause)}`, cause);
+  }
+}
+
+/**
+ * An account exists at the agent PDA but cannot be decoded
+ */
+export class AccountMalformedError extends SAIDError {
+  constructor(readonly pubkey: string, reason: string) {
+    super('ACCOUNT_MALFORMED', `Malformed agent account ${pubkey}: ${reason}`);
+  }
+}
+
+/**
+ * The AgentCard host could not be reached or returned a non-2xx status
+ */
+export class CardFetchFailedError extends SAIDError {
+  constructor(readonly uri: string, reason: string, readonly status?: number, cause?: unknown) {
+    super('CARD_FETCH_FAILED', `Failed to fetch AgentCard from ${uri}: ${reason}`, cause);
+  }
+}
+
+/**
+ * The AgentCard was fetched but its contents are not a valid card
+ */
+export class CardInvalidError extends SAIDError {
+  constructor(
+    readonly uri: string,
+    reason: string,
+    cause?: unknown,
+    readonly problems: CardProblem[] = [] // Schema/consistency problems, when validation failed
+  ) {
+    super('CARD_INVALID', `Invalid AgentCard at ${uri}: ${reason}`, cause);
+  }
+}
+
+/**
+ * A transaction could not be sent or failed on-chain
+ */
+export class TransactionFailedError extends SAIDError {
+  constructor(
+    reason: string,
+    readonly signature?: string,
+    readonly logs?: string[],
+    cause?: unknown
+  ) {
+    super(
+      'TRANSACTION_FAILED',
+      signature ? `Transaction ${signature} failed: ${reason}` : `Transaction failed: ${reason}`,
+      cause
+    );
+  }
+}
+
+/**
+ * A keypair file could not be read, parsed or decrypted
+ */
+export class KeystoreError extends SAIDError {
+  constructor(readonly path: string, reason: string, cause?: unknown) {
+    super('KEYSTORE_INVALID', `Cannot load keypair from ${path}: ${reason}`, cause);
+  }
+}
+
+/**
+ * A listAgents cursor was not one returned by listAgentsPage
+ */
+export class InvalidCursorError extends SAIDError {
+  constructor(readonly cursor: string) {
+    super('INVALID_CURSOR', `Invalid listAgents cursor: ${cursor}`);
+  }
+}
+
+/**
+ * A signed request or credential failed verification
+ *
+ * `status` is the HTTP status a server should answer with.
+ */
+export class AuthError extends SAIDError {
+  readonly status: number;
+
+  constructor(readonly reason: AuthFailureReason, message: string, cause?: unknown) {
+    super('UNAUTHORIZED', message, cause);
+    this.status = reason === 'NOT_REGISTERED' || reason === 'NOT_VERIFIED' || reason === 'SCOPE_DENIED' ? 403 : 401;
+  }
+}
+
+/**
+ * Parse an address, throwing InvalidAddressError instead of web3.js' generic error
+ */
+export function toPublicKey(value: PublicKey | string): PublicKey {
+  if (value instanceof PublicKey) return value;
+  try {
+    return new PublicKey(value);
+  } catch (e) {
+    throw new InvalidAddressError(String(value));
+  }
+}
+
+function describe(cause: unknown): string {
+  return cause instanceof Error ? cause.message : String(cause);
+}
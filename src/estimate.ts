@@ -0,0 +1,157 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { SendOptions, resolvePriorityFee, computeBudgetInstructions } from './send';
+import { RpcUnavailableError } from './errors';
+
+/**
+ * Decoded reason a simulated transaction would fail
+ */
+export interface SimulationError {
+  name: string;              // e.g. 'ConstraintHasOne', 'InsufficientFundsForFee'
+  message: string;
+  instructionIndex?: number; // Failing instruction, including compute budget instructions
+  code?: number;             // Custom program error number
+  raw: TransactionError;     // Error exactly as returned by the RPC node
+}
+
+/**
+ * Simulated outcome and cost breakdown of a write, in lamports
+ */
+export interface CostEstimate {
+  willSucceed: boolean;
+  rent: number;             // Rent deposited into the agent PDA
+  verificationFee: number;  // Paid into the treasury
+  networkFee: number;       // Signature fees plus priority fee
+  total: number;            // rent + verificationFee + networkFee
+  priorityFee: number;      // Micro-lamports per CU used for the estimate
+  unitsConsumed?: number;   // Compute units, when the RPC node reports them
+  logs: string[];
+  error?: SimulationError;
+}
+
+/**
+ * Options for estimating a write
+ */
+export interface EstimateOptions {
+  feePayer?: PublicKey | string; // Defaults to the agent owner
+  send?: SendOptions;            // Priority fee and compute limit to estimate with
+}
+
+/**
+ * Result of simulating a set of instructions
+ */
+export interface SimulationResult {
+  err: TransactionError | null;
+  logs: string[];
+  unitsConsumed?: number;
+  networkFee: number;
+  priorityFee: number;
+}
+
+// Custom errors returned by the System Program when called from the SAID program
+const SYSTEM_ERRORS: Record<number, [string, string]> = {
+  0: ['AccountAlreadyInUse', 'An account with the same address already exists'],
+  1: ['ResultWithNegativeLamports', 'Account does not have enough SOL to perform the operation'],
+};
+
+// Anchor framework errors the SAID program can hit without logging them
+const ANCHOR_ERRORS: Record<number, [string, string]> = {
+  100: ['InstructionMissing', '8 byte instruction identifier not provided'],
+  101: ['InstructionFallbackNotFound', 'Fallback functions are not supported'],
+  2000: ['ConstraintMut', 'A mut constraint was violated'],
+  2001: ['ConstraintHasOne', 'A has one constraint was violated'],
+  2002: ['ConstraintSigner', 'A signer constraint was violated'],
+  2006: ['ConstraintSeeds', 'A seeds constraint was violated'],
+  3012: ['AccountNotInitialized', 'The program expected this account to be already initialized'],
+};
+
+const ANCHOR_LOG = /AnchorError.*Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+
+/**
+ * Turn a raw simulation error and its logs into a readable reason
+ *
+ * Program errors are decoded from Anchor's log line when present, then
+ * from the known Anchor/System error tables.
+ */
+export function decodeSimulationError(err: TransactionError, logs: string[] = []): SimulationError {
+  if (typeof err === 'string') {
+    return { name: err, message: err, raw: err };
+  }
+
+  const instructionError = (err as { InstructionError?: [number, unknown] }).InstructionError;
+  if (instructionError) {
+    const [instructionIndex, detail] = instructionError;
+    if (typeof detail === 'string') {
+      return { name: detail, message: `Instruction ${instructionIndex} failed: ${detail}`, instructionIndex, raw: err };
+    }
+
+    const code = (detail as { Custom?: number }).Custom;
+    if (code !== undefined) {
+      for (const line of logs) {
+        const match = line.match(ANCHOR_LOG);
+        if (match && Number(match[2]) === code) {
+          return { name: match[1], message: match[3], instructionIndex, code, raw: err };
+        }
+      }
+      const [name, message] = (code < 100 ? SYSTEM_ERRORS : ANCHOR_ERRORS)[code]
+        ?? [`Custom${code}`, `Custom program error 0x${code.toString(16)}`];
+      return { name, message, instructionIndex, code, raw: err };
+    }
+
+    return { name: 'InstructionError', message: JSON.stringify(detail), instructionIndex, raw: err };
+  }
+
+  const [name] = Object.keys(err);
+  return { name: name ?? 'TransactionError', message: JSON.stringify(err), raw: err };
+}
+
+/**
+ * Simulate instructions as an unsigned v0 transaction, with the same compute
+ * budget instructions the send pipeline would add, and price its network fee
+ */
+export async function simulateInstructions(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  options: SendOptions = {}
+): Promise<SimulationResult> {
+  const priorityFee = await resolvePriorityFee(connection, instructions, options);
+  const budget = computeBudgetInstructions(priorityFee, options.computeUnitLimit);
+
+  let latest;
+  try {
+    latest = await connection.getLatestBlockhash();
+  } catch (e) {
+    throw new RpcUnavailableError('Failed to fetch recent blockhash', e);
+  }
+  const message = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: latest.blockhash,
+    instructions: [...budget, ...instructions]
+  }).compileToV0Message();
+
+  try {
+    const [simulation, fee] = await Promise.all([
+      connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true
+      }),
+      connection.getFeeForMessage(message)
+    ]);
+    return {
+      err: simulation.value.err,
+      logs: simulation.value.logs ?? [],
+      unitsConsumed: simulation.value.unitsConsumed,
+      networkFee: fee.value ?? 0,
+      priorityFee
+    };
+  } catch (e) {
+    throw new RpcUnavailableError('Failed to simulate transaction', e);
+  }
+}
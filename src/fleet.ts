@@ -0,0 +1,170 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import * as path from 'path';
+import { SAIDError } from './errors';
+import { SendOptions } from './send';
+import { PasswordSource, loadKeypair, loadPublicKey } from './keystore';
+import { deriveAgentWallet } from './hd';
+
+/**
+ * Desired on-chain state of a fleet agent
+ */
+export type FleetState = 'registered' | 'verified';
+
+/**
+ * Where a fleet agent's keypair comes from: a keypair file (plaintext or
+ * encrypted, relative to the manifest), an index under the fleet mnemonic,
+ * or a Keypair when building the manifest in code
+ */
+export type FleetKeypairSource = string | { mnemonicIndex: number } | Keypair;
+
+/**
+ * One agent in a fleet manifest
+ */
+export interface FleetAgentSpec {
+  name: string;               // Unique within the manifest; also the card name
+  keypair: FleetKeypairSource;
+  state?: FleetState;         // Default 'registered'
+  metadataUri?: string;       // Where the AgentCard is hosted
+  description?: string;
+  twitter?: string;
+  website?: string;
+  skills?: string[];
+  capabilities?: string[];
+  serviceTypes?: string[];
+  mcpEndpoint?: string;
+  a2aEndpoint?: string;
+}
+
+/**
+ * Declarative list of agents and the state each should be in
+ */
+export interface FleetManifest {
+  version?: 1;
+  agents: FleetAgentSpec[];
+}
+
+/**
+ * Options for applying a fleet manifest
+ */
+export interface ApplyFleetOptions {
+  plan?: boolean;           // Only diff and report; nothing is loaded or sent
+  baseDir?: string;         // Resolve relative keypair paths against this (default cwd)
+  mnemonic?: string;        // Required for { mnemonicIndex } keypairs
+  password?: PasswordSource; // For encrypted keypair files
+  send?: SendOptions;
+  // Where to host the card of an agent without metadataUri; called only before registering
+  resolveMetadataUri?: (agent: FleetAgentSpec, wallet: string) => Promise<string>;
+}
+
+/**
+ * Step the apply performs for an agent
+ */
+export type FleetAction = 'register' | 'verify';
+
+/**
+ * Outcome for one agent
+ */
+export interface FleetAgentResult {
+  name: string;
+  wallet?: string;
+  agentPDA?: string;
+  before?: 'unregistered' | FleetState; // On-chain state found by the diff
+  desired: FleetState;
+  actions: FleetAction[];                // Missing steps found by the diff
+  completed: FleetAction[];              // Steps that landed during this apply
+  status: 'unchanged' | 'planned' | 'applied' | 'failed';
+  txSignatures: string[];
+  error?: string;
+  errorCode?: string;                    // SAIDError code when available
+}
+
+/**
+ * Per-agent results of an apply or plan
+ */
+export interface FleetReport {
+  plan: boolean;
+  startedAt: string;  // ISO timestamps
+  finishedAt: string;
+  summary: Record<FleetAgentResult['status'], number>;
+  agents: FleetAgentResult[];
+}
+
+const STATES: FleetState[] = ['registered', 'verified'];
+
+/**
+ * Validate a parsed manifest, throwing with every problem found
+ */
+export function parseFleetManifest(value: unknown): FleetManifest {
+  const problems: string[] = [];
+  const manifest = value as FleetManifest;
+
+  if (typeof value !== 'object' || value === null || !Array.isArray(manifest.agents)) {
+    throw new Error('Invalid fleet manifest: expected { "agents": [...] }');
+  }
+  if (manifest.version !== undefined && manifest.version !== 1) {
+    problems.push(`unsupported version ${manifest.version}`);
+  }
+
+  const names = new Set<string>();
+  manifest.agents.forEach((agent, i) => {
+    const label = typeof agent?.name === 'string' ? `"${agent.name}"` : `#${i}`;
+    if (typeof agent?.name !== 'string' || agent.name.length === 0) {
+      problems.push(`agent #${i}: name is required`);
+    } else if (names.has(agent.name)) {
+      problems.push(`agent ${label}: duplicate name`);
+    } else {
+      names.add(agent.name);
+    }
+
+    const source = agent?.keypair;
+    const validSource = typeof source === 'string'
+      || source instanceof Keypair
+      || (typeof source === 'object' && source !== null
+        && Number.isInteger((source as { mnemonicIndex: number }).mnemonicIndex)
+        && (source as { mnemonicIndex: number }).mnemonicIndex >= 0);
+    if (!validSource) {
+      problems.push(`agent ${label}: keypair must be a file path or { "mnemonicIndex": n }`);
+    }
+    if (agent?.state !== undefined && !STATES.includes(agent.state)) {
+      problems.push(`agent ${label}: state must be one of ${STATES.join(', ')}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid fleet manifest: ${problems.join('; ')}`);
+  }
+  return manifest;
+}
+
+/**
+ * Load the keypair for a manifest entry
+ */
+export async function loadFleetWallet(source: FleetKeypairSource, options: ApplyFleetOptions): Promise<Keypair> {
+  if (source instanceof Keypair) return source;
+  if (typeof source === 'string') {
+    return loadKeypair(path.resolve(options.baseDir ?? process.cwd(), source), options.password);
+  }
+  if (!options.mnemonic) {
+    throw new Error(`mnemonic is required for mnemonicIndex ${source.mnemonicIndex}`);
+  }
+  return deriveAgentWallet(options.mnemonic, source.mnemonicIndex);
+}
+
+/**
+ * Address for a manifest entry, without decrypting keypair files
+ */
+export async function loadFleetAddress(source: FleetKeypairSource, options: ApplyFleetOptions): Promise<PublicKey> {
+  if (typeof source === 'string') {
+    return loadPublicKey(path.resolve(options.baseDir ?? process.cwd(), source));
+  }
+  return (await loadFleetWallet(source, options)).publicKey;
+}
+
+/**
+ * Record a failure on a result
+ */
+export function failResult(result: FleetAgentResult, error: unknown): void {
+  result.status = 'failed';
+  result.error = error instanceof Error ? error.message : String(error);
+  if (error instanceof SAIDError) result.errorCode = error.code;
+}
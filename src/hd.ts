@@ -0,0 +1,113 @@
+import { Keypair } from '@solana/web3.js';
+import { generateMnemonic as bip39Generate, mnemonicToSeedSync, validateMnemonic as bip39Validate } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { createHmac } from 'crypto';
+
+/**
+ * Options for deriving agent wallets from a mnemonic
+ */
+export interface DeriveOptions {
+  passphrase?: string;                  // Optional BIP39 passphrase ("25th word")
+  path?: (index: number) => string;     // Defaults to agentDerivationPath
+}
+
+const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * Derivation path for agent N, the same one Phantom and the Solana CLI use
+ * for account N, so derived wallets can be imported there
+ */
+export function agentDerivationPath(index: number): string {
+  return `m/44'/501'/${index}'/0'`;
+}
+
+/**
+ * Generate a new English BIP39 mnemonic (12 words, or 24 with strength 256)
+ */
+export function generateMnemonic(strength: 128 | 256 = 128): string {
+  return bip39Generate(wordlist, strength);
+}
+
+/**
+ * Check a mnemonic's words and checksum
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  return bip39Validate(normalizeMnemonic(mnemonic), wordlist);
+}
+
+/**
+ * SLIP-0010 ed25519 derivation; every path segment must be hardened
+ *
+ * @returns 32-byte ed25519 seed for Keypair.fromSeed
+ */
+export function deriveEd25519Seed(seed: Uint8Array, path: string): Uint8Array {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  let digest = createHmac('sha512', 'ed25519 seed').update(seed).digest();
+  for (const segment of segments.slice(1)) {
+    if (!/^\d+'$/.test(segment)) {
+      throw new Error(`ed25519 only supports hardened derivation, got "${segment}" in ${path}`);
+    }
+    const index = Number(segment.slice(0, -1));
+    if (index >= HARDENED_OFFSET) {
+      throw new Error(`Derivation index out of range in ${path}`);
+    }
+
+    const data = Buffer.alloc(37);
+    digest.copy(data, 1, 0, 32); // 0x00 || parent key
+    data.writeUInt32BE(index + HARDENED_OFFSET, 33);
+    digest = createHmac('sha512', digest.subarray(32)).update(data).digest();
+  }
+  return Uint8Array.from(digest.subarray(0, 32));
+}
+
+/**
+ * Validate a fleet mnemonic and stretch it into its BIP39 seed
+ *
+ * This runs 2048 rounds of PBKDF2; derive many agents from one seed with
+ * deriveAgentWalletFromSeed instead of calling deriveAgentWallet per index.
+ */
+export function mnemonicToAgentSeed(mnemonic: string, passphrase?: string): Uint8Array {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!bip39Validate(normalized, wordlist)) {
+    throw new Error('Invalid mnemonic: unknown word or bad checksum');
+  }
+  return mnemonicToSeedSync(normalized, passphrase);
+}
+
+/**
+ * Derive agent N's wallet from a seed returned by mnemonicToAgentSeed
+ */
+export function deriveAgentWalletFromSeed(
+  seed: Uint8Array,
+  index: number,
+  options: Pick<DeriveOptions, 'path'> = {}
+): Keypair {
+  assertAgentIndex(index);
+  const path = (options.path ?? agentDerivationPath)(index);
+  return Keypair.fromSeed(deriveEd25519Seed(seed, path));
+}
+
+/**
+ * Derive agent N's wallet from a fleet mnemonic
+ *
+ * @param mnemonic - BIP39 phrase backing the whole fleet
+ * @param index - Agent number (account index in the path)
+ */
+export function deriveAgentWallet(mnemonic: string, index: number, options: DeriveOptions = {}): Keypair {
+  assertAgentIndex(index);
+  return deriveAgentWalletFromSeed(mnemonicToAgentSeed(mnemonic, options.passphrase), index, options);
+}
+
+function assertAgentIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Agent index must be a non-negative integer, got ${index}`);
+  }
+}
+
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
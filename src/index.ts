@@ -4,41 +4,244 @@ import {
   Keypair, 
   Transaction, 
   TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
   SystemProgram,
-  sendAndConfirmTransaction
+  GetProgramAccountsFilter
 } from '@solana/web3.js';
-import * as bs58 from 'bs58';
+import bs58 from 'bs58';
+import { createHash } from 'crypto';
+import {
+  SAID_PROGRAM_ID,
+  VERIFICATION_FEE,
+  SAIDCluster,
+  ClusterConfig,
+  resolveCluster,
+  getExplorerUrl
+} from './clusters';
+import { SignerLike } from './signer';
+import { SendOptions, SendResult, sendInstructions, fitsInTransaction } from './send';
+import { CostEstimate, EstimateOptions, decodeSimulationError, simulateInstructions } from './estimate';
+import { CacheOptions, CacheStore, MemoryCacheStore, DEFAULT_CACHE_OPTIONS } from './cache';
+import { DeriveOptions, deriveAgentWalletFromSeed, mnemonicToAgentSeed } from './hd';
+import { AgentCard, CardProblem, validateCard } from './card';
+import { SignedCard, isSignedCard, verifyCardSignature } from './signed-card';
+import { UriResolver, UriResolverOptions, createUriResolver, createLimiter } from './resolver';
+import { CardChange, CardFieldChange, CardPin, PinStore, MemoryPinStore, diffCards } from './pins';
+import { AgentEventHandler, AgentWatcher, WatchOptions, agentEvents, startWatcher } from './watch';
+import { DelegationCert, RevocationList, isRevocationList, verifyRevocations } from './delegation';
+import { SocialCredential, VerifyCredentialOptions, verifySocialCredential } from './credentials';
+import { DIDResolutionResult, DID_CONTENT_TYPE, buildDidDocument, didDocumentMetadata, walletFromDid } from './did';
+import {
+  ApplyFleetOptions,
+  FleetAgentResult,
+  FleetManifest,
+  FleetReport,
+  failResult,
+  loadFleetAddress,
+  loadFleetWallet,
+  parseFleetManifest
+} from './fleet';
+import {
+  AgentAccountCodec,
+  AGENT_ACCOUNT_SIZE,
+  AGENT_ACCOUNT_DISCRIMINATOR,
+  REGISTER_AGENT_DISCRIMINATOR,
+  GET_VERIFIED_DISCRIMINATOR
+} from './codec';
+import {
+  SAIDError,
+  InvalidAddressError,
+  RpcUnavailableError,
+  AccountMalformedError,
+  CardInvalidError,
+  TransactionFailedError,
+  InvalidCursorError,
+  AuthError,
+  toPublicKey
+} from './errors';
 
-// SAID Program on Solana Mainnet
-export const SAID_PROGRAM_ID = new PublicKey('5dpw6KEQPn248pnkkaYyWfHwu2nfb3LUMbTucb6LaA8G');
-export const TREASURY_PDA = new PublicKey('2XfHTeNWTjNwUmgoXaafYuqHcAAXj8F5Kjw2Bnzi4FxH');
+export {
+  SAID_PROGRAM_ID,
+  TREASURY_PDA,
+  VERIFICATION_FEE,
+  CLUSTERS,
+  resolveCluster,
+  deriveTreasuryPDA,
+  getExplorerUrl
+} from './clusters';
+export type { SAIDCluster, ClusterConfig, ClusterOverrides } from './clusters';
+export { isKeypair, keypairSigner, signTransaction, signMessage, verifyMessage } from './signer';
+export type { Signer, SignerLike, MessageSigner, MessageSignerLike } from './signer';
+export type { SendOptions, SendResult } from './send';
+export { decodeSimulationError } from './estimate';
+export type { CostEstimate, EstimateOptions, SimulationError } from './estimate';
+export {
+  loadKeypair,
+  saveKeypair,
+  loadPublicKey,
+  encryptKeypair,
+  decryptKeypair,
+  isKeystore,
+  DEFAULT_KEYSTORE_OPTIONS
+} from './keystore';
+export type { Keystore, KeystoreOptions, PasswordSource } from './keystore';
+export {
+  deriveAgentWallet,
+  deriveAgentWalletFromSeed,
+  mnemonicToAgentSeed,
+  deriveEd25519Seed,
+  agentDerivationPath,
+  generateMnemonic,
+  validateMnemonic
+} from './hd';
+export type { DeriveOptions } from './hd';
+export { parseFleetManifest } from './fleet';
+export type {
+  FleetManifest,
+  FleetAgentSpec,
+  FleetKeypairSource,
+  FleetState,
+  FleetAction,
+  FleetAgentResult,
+  FleetReport,
+  ApplyFleetOptions
+} from './fleet';
+export {
+  createUriResolver,
+  UriResolverChain,
+  HttpUriResolver,
+  IpfsUriResolver,
+  ArweaveUriResolver,
+  DataUriResolver,
+  FileUriResolver,
+  SAID_WWW_REWRITE,
+  DEFAULT_RESOLVER_OPTIONS,
+  DEFAULT_FETCH_LIMITS,
+  isPrivateAddress
+} from './resolver';
+export type { UriResolver, UriResolverOptions, UriRewrite, ResolvedUri, FetchLimits } from './resolver';
+export { validateCard, AGENT_CARD_SCHEMA } from './card';
+export type {
+  AgentCard,
+  CardProblem,
+  CardProblemCode,
+  CardValidationResult,
+  CardExpectations
+} from './card';
+export { signCard, verifyCardSignature, isSignedCard, canonicalJson } from './signed-card';
+export type { SignedCard } from './signed-card';
+export {
+  signRequest,
+  createRequestVerifier,
+  requestSigningPayload,
+  MemoryNonceStore,
+  AUTH_HEADERS,
+  DEFAULT_MAX_SKEW_SECONDS
+} from './auth';
+export type { RequestToSign, SignedRequest, SignRequestOptions, NonceStore, RequestVerifierOptions } from './auth';
+export { httpAuth, expressAuth, fastifyAuth } from './middleware';
+export {
+  issueDelegation,
+  verifyDelegation,
+  isSignedDelegation,
+  signRevocations,
+  verifyRevocations,
+  isRevocationList,
+  encodeDelegation,
+  decodeDelegation,
+  DELEGATION_SCOPES
+} from './delegation';
+export type {
+  DelegationCert,
+  SignedDelegation,
+  RevocationList,
+  IssueDelegationOptions,
+  VerifyDelegationOptions
+} from './delegation';
+export {
+  createChallenge,
+  challengeMessage,
+  signChallenge,
+  verifyChallenge,
+  issueToken,
+  verifyToken
+} from './session';
+export type {
+  Challenge,
+  SignedChallenge,
+  ChallengeOptions,
+  VerifyChallengeOptions,
+  SessionClaims,
+  IssueTokenOptions,
+  VerifyTokenOptions
+} from './session';
+export {
+  toDid,
+  walletFromDid,
+  buildDidDocument,
+  didDocumentMetadata,
+  getResolver,
+  DID_METHOD,
+  DID_CONTENT_TYPE
+} from './did';
+export type {
+  DIDDocument,
+  DIDDocumentMetadata,
+  DIDResolutionMetadata,
+  DIDResolutionResult,
+  DIDResolver,
+  DIDService,
+  ParsedDID,
+  VerificationMethod
+} from './did';
+export { issueSocialCredential, verifySocialCredential, SOCIAL_PROOF_METHODS } from './credentials';
+export type {
+  SocialPlatform,
+  SocialProofClaim,
+  SocialCredential,
+  IssueCredentialOptions,
+  VerifyCredentialOptions
+} from './credentials';
+export { agentEvents } from './watch';
+export type { AgentEvent, AgentEventType, AgentEventHandler, AgentWatcher, WatchOptions } from './watch';
+export { MemoryPinStore, FilePinStore, diffCards } from './pins';
+export type { CardPin, CardChange, CardFieldChange, PinStore } from './pins';
+export { MemoryCacheStore } from './cache';
+export type { CacheStore, CacheOptions } from './cache';
+export {
+  SAIDError,
+  InvalidAddressError,
+  RpcUnavailableError,
+  AccountMalformedError,
+  CardFetchFailedError,
+  CardInvalidError,
+  TransactionFailedError,
+  KeystoreError,
+  InvalidCursorError,
+  AuthError
+} from './errors';
+export type { SAIDErrorCode, AuthFailureReason } from './errors';
+export {
+  AgentAccountCodec,
+  AGENT_ACCOUNT_SIZE,
+  AGENT_ACCOUNT_DISCRIMINATOR,
+  MAX_METADATA_URI_LENGTH
+} from './codec';
+export type { AgentAccountData } from './codec';
 
-// Default RPC endpoints
-const DEFAULT_RPC = 'https://api.mainnet-beta.solana.com';
-const AGENT_ACCOUNT_SIZE = 263;
+const MULTIPLE_ACCOUNTS_BATCH_SIZE = 100; // getMultipleAccountsInfo limit per call
+const DEFAULT_CARD_CONCURRENCY = 8;
 
-// Anchor discriminator for instructions (SHA256("global:<instruction_name>")[0..8])
-const REGISTER_AGENT_DISCRIMINATOR = Buffer.from([135, 157, 66, 195, 2, 113, 175, 30]);
-const GET_VERIFIED_DISCRIMINATOR = Buffer.from([132, 231, 2, 30, 115, 74, 23, 26]);
+// listAgentsPage cursors are "<sort value>:<agent PDA>"
+function encodeListCursor(value: number, key: string): string {
+  return `${value}:${key}`;
+}
 
-/**
- * AgentCard metadata structure (hosted JSON)
- */
-export interface AgentCard {
-  name: string;
-  description?: string;
-  twitter?: string;
-  wallet?: string;
-  agentPDA?: string;
-  capabilities?: string[];
-  skills?: string[];
-  website?: string;
-  created?: string;
-  verified?: boolean;
-  verifiedAt?: string;
-  mcpEndpoint?: string;
-  a2aEndpoint?: string;
-  serviceTypes?: string[];
+function decodeListCursor(cursor: string): { value: number; key: string } {
+  const match = cursor.match(/^(-?\d+):([1-9A-HJ-NP-Za-km-z]{32,44})$/);
+  if (!match) throw new InvalidCursorError(cursor);
+  return { value: Number(match[1]), key: match[2] };
 }
 
 /**
@@ -53,6 +256,60 @@ export interface AgentIdentity {
   verifiedAt: number;
   reputationScore?: number;
   card?: AgentCard;
+  cardError?: SAIDError;        // Why the card could not be attached, if it failed
+  cardProblems?: CardProblem[]; // Validation problems of an attached (non-strict) card
+  cardSignatureValid?: boolean; // Card is a signed envelope signed by `owner` (false if unsigned)
+  cardHash?: string;            // Hex SHA-256 of the fetched card bytes
+  cardChanged?: CardChange;     // Set when the card no longer matches its pin
+  delegation?: DelegationCert;  // Set by verifiers when a delegated operator key signed
+}
+
+/**
+ * Social proof credentials listed in an agent's card
+ */
+export interface SocialProofs {
+  proofs: SocialCredential[];                           // Signed by a trusted issuer and about the card's owner
+  claims: SocialCredential[];                           // Self-issued: validly signed, but NOT independently checked
+  rejected: { credential: string; error: AuthError }[]; // Failed verification, with the reason
+}
+
+/**
+ * Filters, sort order and page for listing agents
+ *
+ * `owner` is filtered by the RPC node. `verified` and `registeredAfter`
+ * follow the variable-length metadata URI in the account, so they (and the
+ * time sorts) need a full account scan; key-sorted pages without them scan
+ * account keys only and fetch just the page.
+ */
+export interface ListAgentsOptions {
+  includeCards?: boolean;          // Fetch cards for the returned page only
+  owner?: PublicKey | string;
+  verified?: boolean;
+  registeredAfter?: number;        // Unix timestamp, exclusive
+  sort?: 'key' | 'registeredAt' | 'verifiedAt'; // Default 'key' (agent PDA)
+  order?: 'asc' | 'desc';          // Default 'asc'
+  limit?: number;
+  offset?: number;                 // Skip this many agents (after the cursor)
+  cursor?: string;                 // nextCursor of the previous page
+}
+
+/**
+ * One page of listAgentsPage results
+ */
+export interface AgentPage {
+  agents: AgentIdentity[];
+  total: number;       // Agents matching the filters, across all pages
+  nextCursor?: string; // Pass as `cursor` for the next page; absent on the last
+}
+
+/**
+ * Pinned card compared field by field with the card served now
+ */
+export interface CardDiff {
+  pin: CardPin;
+  currentHash: string;
+  changed: boolean;          // Bytes differ from the pin
+  changes: CardFieldChange[]; // Empty when only formatting or the signature changed
 }
 
 /**
@@ -61,6 +318,23 @@ export interface AgentIdentity {
 export interface SAIDConfig {
   rpcUrl?: string;
   commitment?: 'processed' | 'confirmed' | 'finalized';
+  cluster?: SAIDCluster;        // Defaults to 'mainnet-beta'
+  programId?: PublicKey | string; // Required for 'custom' cluster
+  treasury?: PublicKey | string;  // Defaults to the program's treasury PDA
+  cache?: boolean | CacheOptions; // Disabled by default; true = in-memory LRU
+  connection?: Connection;        // Use an existing connection (e.g. SAIDEmulator) instead of rpcUrl
+  send?: SendOptions;             // Default priority fee / retry settings for write methods
+  resolver?: UriResolver | UriResolverOptions; // How metadata URIs are fetched; options tune the built-in chain
+  cardConcurrency?: number;       // Max card fetches in flight per instance (default 8)
+  strictCards?: boolean;          // Reject cards failing validateCard instead of reporting problems
+  pins?: PinStore;                // Where pinCard records card hashes (default: in-memory)
+}
+
+/**
+ * Options for reading AgentCards
+ */
+export interface CardReadOptions {
+  strict?: boolean; // Overrides SAIDConfig.strictCards
 }
 
 /**
@@ -76,6 +350,32 @@ export interface CreateAgentOptions {
   serviceTypes?: string[];
   mcpEndpoint?: string;
   a2aEndpoint?: string;
+  wallet?: Keypair; // Register this keypair (e.g. from deriveAgentWallet) instead of a random one
+}
+
+/**
+ * Options for scanning a mnemonic for registered agents
+ */
+export interface RecoverAgentsOptions extends DeriveOptions {
+  startIndex?: number; // First index to check (default 0)
+  gapLimit?: number;   // Stop after this many consecutive unregistered indices (default 20)
+}
+
+/**
+ * An agent found under a mnemonic
+ */
+export interface RecoveredAgent {
+  index: number;
+  wallet: Keypair;
+  agent: AgentIdentity;
+}
+
+/**
+ * Options for building unsigned transactions
+ */
+export interface BuildTransactionOptions {
+  feePayer?: PublicKey | string; // Defaults to the agent owner
+  versioned?: boolean;           // Return a v0 VersionedTransaction
 }
 
 /**
@@ -88,6 +388,34 @@ export interface CreateAgentResult {
   agentPDA: string;
   metadataUri: string;
   txSignature: string;
+  confirmation: SendResult; // Attempts and final status of the registration
+}
+
+/**
+ * Options for createAndVerifyAgent
+ */
+export interface CreateAndVerifyOptions {
+  wallet?: Keypair;  // Resume with the wallet from an earlier, interrupted run
+  atomic?: boolean;  // false = always send register and verify separately (default true)
+  sweep?: boolean;   // Return the wallet's unused lamports to the funder
+}
+
+/**
+ * A step of the create-and-verify flow
+ */
+export type AgentSetupStep = 'register' | 'verify' | 'sweep';
+
+/**
+ * Result from createAndVerifyAgent
+ */
+export interface CreateAndVerifyResult extends Omit<CreateAgentResult, 'txSignature' | 'confirmation'> {
+  verified: boolean;
+  atomic: boolean;               // Everything landed in a single transaction
+  steps: AgentSetupStep[];       // Steps this call performed; finished ones are skipped on resume
+  transactions: SendResult[];    // One per transaction sent, in order
+  txSignature?: string;          // Last transaction sent, if any
+  swept: number;                 // Lamports returned to the funder
+  error?: SAIDError;             // Why the flow stopped early; pass `wallet` to resume
 }
 
 /**
@@ -96,102 +424,311 @@ export interface CreateAgentResult {
 export class SAID {
   private connection: Connection;
   private config: SAIDConfig;
+  readonly cluster: ClusterConfig;
+  private cache: {
+    store: CacheStore;
+    identityTtl: number;
+    negativeTtl: number;
+    cardTtl: number;
+  } | null;
+  private resolver: UriResolver;
+  private limitCardFetch: <T>(task: () => Promise<T>) => Promise<T>;
+  private pins: PinStore;
 
   constructor(config: SAIDConfig = {}) {
     this.config = config;
-    this.connection = new Connection(
-      config.rpcUrl || DEFAULT_RPC,
+    const cacheOptions = config.cache === true ? {} : config.cache || null;
+    this.cache = cacheOptions && {
+      store: cacheOptions.store || new MemoryCacheStore(cacheOptions.maxEntries),
+      identityTtl: cacheOptions.identityTtl ?? DEFAULT_CACHE_OPTIONS.identityTtl,
+      negativeTtl: cacheOptions.negativeTtl ?? DEFAULT_CACHE_OPTIONS.negativeTtl,
+      cardTtl: cacheOptions.cardTtl ?? DEFAULT_CACHE_OPTIONS.cardTtl
+    };
+    this.cluster = resolveCluster(config.cluster, {
+      rpcUrl: config.rpcUrl,
+      programId: config.programId,
+      treasury: config.treasury
+    });
+    this.connection = config.connection || new Connection(
+      this.cluster.rpcUrl,
       config.commitment || 'confirmed'
     );
+    this.resolver = config.resolver && 'resolve' in config.resolver
+      ? config.resolver
+      : createUriResolver(config.resolver);
+    this.limitCardFetch = createLimiter(config.cardConcurrency ?? DEFAULT_CARD_CONCURRENCY);
+    this.pins = config.pins || new MemoryPinStore();
   }
 
   /**
    * Derive agent PDA from owner wallet
    */
-  static deriveAgentPDA(owner: PublicKey | string): [PublicKey, number] {
-    const ownerKey = typeof owner === 'string' ? new PublicKey(owner) : owner;
+  static deriveAgentPDA(
+    owner: PublicKey | string,
+    programId: PublicKey = SAID_PROGRAM_ID
+  ): [PublicKey, number] {
+    const ownerKey = toPublicKey(owner);
     return PublicKey.findProgramAddressSync(
       [Buffer.from('agent'), ownerKey.toBuffer()],
-      SAID_PROGRAM_ID
+      programId
     );
   }
 
+  /**
+   * Derive agent PDA from owner wallet using this instance's program ID
+   */
+  deriveAgentPDA(owner: PublicKey | string): [PublicKey, number] {
+    return SAID.deriveAgentPDA(owner, this.cluster.programId);
+  }
+
+  /**
+   * Explorer link for a transaction or account on this instance's cluster
+   */
+  explorerUrl(kind: 'tx' | 'account', value: string): string {
+    return getExplorerUrl(this.cluster, kind, value);
+  }
+
   /**
    * Parse raw account data into AgentIdentity
    */
   private parseAgentData(pubkey: string, data: Buffer): AgentIdentity {
-    // ✅ FIX: Validate buffer length
-    if (data.length !== AGENT_ACCOUNT_SIZE) {
-      throw new Error(`Invalid account data size: expected ${AGENT_ACCOUNT_SIZE}, got ${data.length}`);
-    }
-    
-    const owner = new PublicKey(data.subarray(8, 40)).toString();
-    
-    const uriLength = data.readUInt32LE(40);
-    // ✅ FIX: Bounds check
-    if (uriLength > 200 || 44 + uriLength > data.length) {
-      throw new Error('Malformed metadata URI length');
-    }
-    const metadataUri = data.subarray(44, 44 + uriLength).toString('utf8');
-    
-    const offset = 44 + uriLength;
-    if (offset + 17 > data.length) {
-      throw new Error('Truncated account data');
-    }
-    const registeredAt = Number(data.readBigInt64LE(offset));
-    const isVerified = data[offset + 8] === 1;
-    const verifiedAt = Number(data.readBigInt64LE(offset + 9));
+    const account = AgentAccountCodec.decode(data, pubkey);
 
-    return {
+    const agent: AgentIdentity = {
       pubkey,
-      owner,
-      metadataUri,
-      registeredAt,
-      isVerified,
-      verifiedAt
+      owner: account.owner,
+      metadataUri: account.metadataUri,
+      registeredAt: account.registeredAt,
+      isVerified: account.isVerified,
+      verifiedAt: account.verifiedAt
     };
+    if (account.reputationScore > 0) {
+      agent.reputationScore = account.reputationScore;
+    }
+    return agent;
+  }
+
+  private identityCacheKey(pda: PublicKey | string): string {
+    return `said:${this.cluster.programId.toString()}:identity:${pda.toString()}`;
+  }
+
+  private cardCacheKey(metadataUri: string): string {
+    return `said:card:${metadataUri}`;
+  }
+
+  /**
+   * Read a cached identity. Resolves to undefined on a miss (or when caching
+   * is disabled) and null for a cached "not registered" result.
+   */
+  private async readCachedIdentity(pda: PublicKey): Promise<AgentIdentity | null | undefined> {
+    if (!this.cache) return undefined;
+    const cached = await this.cache.store.get<AgentIdentity | null>(this.identityCacheKey(pda));
+    // Hand out a copy so callers attaching cards don't mutate the cache
+    return cached ? { ...cached } : cached;
+  }
+
+  private async writeCachedIdentity(pda: PublicKey, agent: AgentIdentity | null): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.store.set(
+      this.identityCacheKey(pda),
+      agent && { ...agent },
+      agent ? this.cache.identityTtl : this.cache.negativeTtl
+    );
+  }
+
+  /**
+   * Drop cached identity and AgentCard data for a wallet
+   */
+  async invalidate(wallet: string | PublicKey): Promise<void> {
+    if (!this.cache) return;
+
+    const [agentPDA] = this.deriveAgentPDA(wallet);
+    const key = this.identityCacheKey(agentPDA);
+    const cached = await this.cache.store.get<AgentIdentity | null>(key);
+    if (cached?.metadataUri) {
+      await this.cache.store.delete(this.cardCacheKey(cached.metadataUri));
+    }
+    await this.cache.store.delete(key);
+  }
+
+  /**
+   * Drop every cached entry
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.store.clear?.();
   }
 
   /**
    * Lookup agent by wallet address
    */
   async lookup(wallet: string | PublicKey): Promise<AgentIdentity | null> {
+    const [agentPDA] = this.deriveAgentPDA(wallet);
+    return this.fetchIdentity(agentPDA);
+  }
+
+  /**
+   * Lookup agent by PDA directly
+   */
+  async lookupByPDA(pda: string | PublicKey): Promise<AgentIdentity | null> {
+    return this.fetchIdentity(toPublicKey(pda));
+  }
+
+  /**
+   * Fetch and decode the agent account at a PDA (cache-aware)
+   *
+   * Resolves to null only when no account exists. RPC failures throw
+   * RpcUnavailableError and undecodable accounts throw AccountMalformedError.
+   */
+  private async fetchIdentity(agentPDA: PublicKey): Promise<AgentIdentity | null> {
+    const cached = await this.readCachedIdentity(agentPDA);
+    if (cached !== undefined) return cached;
+
+    let accountInfo;
     try {
-      const [agentPDA] = SAID.deriveAgentPDA(wallet);
-      const accountInfo = await this.connection.getAccountInfo(agentPDA);
-      
-      if (!accountInfo || accountInfo.data.length !== AGENT_ACCOUNT_SIZE) {
-        return null;
+      accountInfo = await this.connection.getAccountInfo(agentPDA);
+    } catch (e) {
+      throw new RpcUnavailableError('Failed to lookup agent', e);
+    }
+
+    if (!accountInfo) {
+      await this.writeCachedIdentity(agentPDA, null);
+      return null;
+    }
+
+    const agent = this.parseAgentData(agentPDA.toString(), accountInfo.data);
+    await this.writeCachedIdentity(agentPDA, agent);
+    return agent;
+  }
+
+  /**
+   * Lookup many agents at once using batched getMultipleAccountsInfo calls
+   *
+   * Each entry maps to the agent, null when the wallet is not registered,
+   * an InvalidAddressError when the input is not a valid address, or an
+   * AccountMalformedError when the account cannot be decoded. One bad input
+   * does not fail the whole batch; RPC failures throw RpcUnavailableError.
+   */
+  async lookupMany(wallets: (string | PublicKey)[]): Promise<Map<string, AgentIdentity | null | SAIDError>> {
+    const results = new Map<string, AgentIdentity | null | SAIDError>();
+    const pending: { wallet: string; pda: PublicKey }[] = [];
+
+    for (const input of wallets) {
+      const wallet = input.toString();
+      if (results.has(wallet)) continue;
+
+      let pda: PublicKey;
+      try {
+        [pda] = this.deriveAgentPDA(input);
+      } catch (e) {
+        results.set(wallet, e instanceof SAIDError ? e : new InvalidAddressError(wallet));
+        continue;
       }
 
-      const agent = this.parseAgentData(agentPDA.toString(), accountInfo.data);
-      return agent;
-    } catch (e: any) {
-      // ✅ FIX: Distinguish between expected vs unexpected errors
-      if (e.message?.includes('Invalid public key')) {
-        throw new Error(`Invalid wallet address: ${wallet}`);
+      const cached = await this.readCachedIdentity(pda);
+      if (cached !== undefined) {
+        results.set(wallet, cached);
+        continue;
       }
-      // Network/RPC errors should bubble up
-      throw new Error(`Failed to lookup agent: ${e.message}`);
+
+      pending.push({ wallet, pda });
+      results.set(wallet, null);
     }
+
+    for (let i = 0; i < pending.length; i += MULTIPLE_ACCOUNTS_BATCH_SIZE) {
+      const chunk = pending.slice(i, i + MULTIPLE_ACCOUNTS_BATCH_SIZE);
+      let infos;
+      try {
+        infos = await this.connection.getMultipleAccountsInfo(chunk.map(p => p.pda));
+      } catch (e) {
+        throw new RpcUnavailableError('Failed to lookup agents', e);
+      }
+
+      for (let j = 0; j < chunk.length; j++) {
+        const { wallet, pda } = chunk[j];
+        const accountInfo = infos[j];
+        if (!accountInfo) {
+          await this.writeCachedIdentity(pda, null);
+          continue;
+        }
+
+        try {
+          const agent = this.parseAgentData(pda.toString(), accountInfo.data);
+          await this.writeCachedIdentity(pda, agent);
+          results.set(wallet, agent);
+        } catch (e) {
+          if (!(e instanceof AccountMalformedError)) throw e;
+          results.set(wallet, e);
+        }
+      }
+    }
+
+    return results;
   }
 
   /**
-   * Lookup agent by PDA directly
+   * Check verification status for many wallets at once
    */
-  async lookupByPDA(pda: string | PublicKey): Promise<AgentIdentity | null> {
-    try {
-      const pdaKey = typeof pda === 'string' ? new PublicKey(pda) : pda;
-      const accountInfo = await this.connection.getAccountInfo(pdaKey);
-      
-      if (!accountInfo || accountInfo.data.length !== AGENT_ACCOUNT_SIZE) {
-        return null;
-      }
+  async isVerifiedMany(wallets: (string | PublicKey)[]): Promise<Map<string, boolean | SAIDError>> {
+    const agents = await this.lookupMany(wallets);
+    const results = new Map<string, boolean | SAIDError>();
 
-      return this.parseAgentData(pdaKey.toString(), accountInfo.data);
-    } catch (e) {
-      return null;
+    agents.forEach((agent, wallet) => {
+      results.set(wallet, agent instanceof Error ? agent : agent?.isVerified ?? false);
+    });
+
+    return results;
+  }
+
+  /**
+   * Lookup many agents at once with their AgentCard metadata attached
+   */
+  async getAgentsMany(wallets: (string | PublicKey)[]): Promise<Map<string, AgentIdentity | null | SAIDError>> {
+    const agents = await this.lookupMany(wallets);
+
+    await Promise.all(
+      Array.from(agents.values()).map(async (agent) => {
+        if (agent && !(agent instanceof Error)) {
+          await this.attachCard(agent);
+        }
+      })
+    );
+
+    return agents;
+  }
+
+  /**
+   * Find every registered agent derived from a fleet mnemonic
+   *
+   * Looks up successive indices (one batched RPC call per gap window) and
+   * stops after `gapLimit` consecutive unregistered wallets.
+   *
+   * @param mnemonic - BIP39 phrase the fleet was derived from
+   * @param options - Passphrase, path, start index and gap limit
+   */
+  async recoverAgents(mnemonic: string, options: RecoverAgentsOptions = {}): Promise<RecoveredAgent[]> {
+    const gapLimit = options.gapLimit ?? 20;
+    const found: RecoveredAgent[] = [];
+    let index = options.startIndex ?? 0;
+    let lastFound = index - 1;
+    // Stretch the mnemonic once; each index is then a cheap SLIP-0010 step
+    const seed = mnemonicToAgentSeed(mnemonic, options.passphrase);
+
+    while (index - lastFound <= gapLimit) {
+      const wallets = Array.from({ length: gapLimit }, (_, i) => deriveAgentWalletFromSeed(seed, index + i, options));
+      const results = await this.lookupMany(wallets.map((w) => w.publicKey));
+
+      wallets.forEach((wallet, i) => {
+        const result = results.get(wallet.publicKey.toString());
+        if (result instanceof SAIDError) throw result;
+        if (result) {
+          found.push({ index: index + i, wallet, agent: result });
+          lastFound = index + i;
+        }
+      });
+      index += gapLimit;
     }
+
+    return found;
   }
 
   /**
@@ -212,78 +749,459 @@ export class SAID {
 
   /**
    * Fetch the AgentCard metadata for a wallet
+   *
+   * Resolves to null when the wallet is not registered or has no metadata
+   * URI. Throws CardFetchFailedError / CardInvalidError when the card cannot
+   * be loaded, or in strict mode when it fails validateCard.
    */
-  async getCard(wallet: string | PublicKey): Promise<AgentCard | null> {
+  async getCard(wallet: string | PublicKey, options: CardReadOptions = {}): Promise<AgentCard | null> {
     const agent = await this.lookup(wallet);
     if (!agent || !agent.metadataUri) return null;
 
+    const { document } = await this.fetchCard(agent.metadataUri);
+    return this.checkCard(agent, document, options).card;
+  }
+
+  /**
+   * Validate a fetched card against the identity it belongs to
+   *
+   * Signed envelopes are unwrapped and their signature checked against the
+   * on-chain owner; a signature that does not verify is a problem too.
+   * Strict mode throws CardInvalidError; otherwise the raw card is returned
+   * alongside its problems.
+   */
+  private checkCard(
+    agent: AgentIdentity,
+    document: AgentCard | SignedCard,
+    options: CardReadOptions
+  ): { card: AgentCard; problems: CardProblem[]; signatureValid: boolean } {
+    const signed = isSignedCard(document);
+    const card = signed ? document.card : document;
+    const signatureValid = signed && verifyCardSignature(document, agent.owner);
+
+    const result = validateCard(card, { owner: agent.owner, agentPDA: agent.pubkey });
+    const problems = [...result.problems];
+    if (signed && !signatureValid) {
+      problems.push({
+        path: 'signature',
+        code: 'SIGNATURE_INVALID',
+        message: `card signature does not verify against owner ${agent.owner}`
+      });
+    }
+    if (problems.length === 0) return { card: result.card!, problems, signatureValid };
+
+    if (options.strict ?? this.config.strictCards) {
+      const summary = problems.map((p) => p.message).join('; ');
+      throw new CardInvalidError(agent.metadataUri, summary, undefined, problems);
+    }
+    return { card, problems, signatureValid };
+  }
+
+  /**
+   * Fetch and parse the AgentCard JSON (plain or signed) hosted at a metadata
+   * URI, along with the SHA-256 of the bytes served
+   *
+   * With `cache: false` the card is always fetched; the fresh copy still
+   * replaces the cached one.
+   */
+  private async fetchCard(
+    metadataUri: string,
+    options: { cache?: boolean } = {}
+  ): Promise<{ document: AgentCard | SignedCard; sha256: string }> {
+    const cacheKey = this.cardCacheKey(metadataUri);
+    if (this.cache && options.cache !== false) {
+      const cached = await this.cache.store.get<{ document: AgentCard | SignedCard; sha256: string }>(cacheKey);
+      if (cached !== undefined && cached !== null) return cached;
+    }
+
+    const { body } = await this.limitCardFetch(() => this.resolver.resolve(metadataUri));
+
+    let card: AgentCard | SignedCard;
     try {
-      let uri = agent.metadataUri;
-      if (uri.includes('saidprotocol.com') && !uri.includes('www.')) {
-        uri = uri.replace('saidprotocol.com', 'www.saidprotocol.com');
-      }
-      
-      const response = await fetch(uri);
-      if (!response.ok) return null;
-      return await response.json();
+      card = JSON.parse(new TextDecoder().decode(body));
     } catch (e) {
-      return null;
+      throw new CardInvalidError(metadataUri, 'response is not valid JSON', e);
+    }
+    if (!card || typeof card !== 'object' || Array.isArray(card)) {
+      throw new CardInvalidError(metadataUri, 'expected a JSON object');
     }
+
+    const fetched = { document: card, sha256: createHash('sha256').update(body).digest('hex') };
+    if (this.cache) {
+      await this.cache.store.set(cacheKey, fetched, this.cache.cardTtl);
+    }
+    return fetched;
   }
 
   /**
    * Get full agent data including AgentCard metadata
    */
-  async getAgent(wallet: string | PublicKey): Promise<AgentIdentity | null> {
+  async getAgent(wallet: string | PublicKey, options: CardReadOptions = {}): Promise<AgentIdentity | null> {
     const agent = await this.lookup(wallet);
     if (!agent) return null;
 
-    const card = await this.getCard(wallet);
-    if (card) {
+    // Reuse the identity we already have instead of looking it up again
+    await this.attachCard(agent, options);
+    return agent;
+  }
+
+  /**
+   * Attach the AgentCard to an identity, recording any failure as cardError
+   */
+  private async attachCard(agent: AgentIdentity, options: CardReadOptions = {}): Promise<void> {
+    if (!agent.metadataUri) return;
+
+    try {
+      const { document, sha256 } = await this.fetchCard(agent.metadataUri);
+      const { card, problems, signatureValid } = this.checkCard(agent, document, options);
       agent.card = card;
+      agent.cardSignatureValid = signatureValid;
+      agent.cardHash = sha256;
+      if (problems.length > 0) agent.cardProblems = problems;
+
+      const pin = await this.pins.get(agent.owner);
+      if (pin && pin.sha256 !== sha256) {
+        agent.cardChanged = { pinnedHash: pin.sha256, currentHash: sha256, pinnedAt: pin.pinnedAt };
+      }
+    } catch (e) {
+      if (!(e instanceof SAIDError)) throw e;
+      agent.cardError = e;
     }
+  }
 
-    return agent;
+  /**
+   * Record the SHA-256 of a wallet's current card in the pin store
+   *
+   * Later getAgent calls set `cardChanged` when the served bytes differ.
+   * Resolves to null when the wallet is not registered or has no metadata URI.
+   */
+  async pinCard(wallet: string | PublicKey): Promise<CardPin | null> {
+    const agent = await this.lookup(wallet);
+    if (!agent || !agent.metadataUri) return null;
+
+    // Pins hash the bytes served now, not a cached copy
+    const { document, sha256 } = await this.fetchCard(agent.metadataUri, { cache: false });
+    const pin: CardPin = {
+      wallet: agent.owner,
+      metadataUri: agent.metadataUri,
+      sha256,
+      pinnedAt: new Date().toISOString(),
+      document
+    };
+    await this.pins.set(agent.owner, pin);
+    return pin;
+  }
+
+  /**
+   * Forget a wallet's pinned card
+   */
+  async unpinCard(wallet: string | PublicKey): Promise<void> {
+    await this.pins.delete(toPublicKey(wallet).toString());
+  }
+
+  /**
+   * Compare a wallet's pinned card with the card served now
+   *
+   * Resolves to null when the wallet has no pin or is no longer registered.
+   */
+  async diffCard(wallet: string | PublicKey): Promise<CardDiff | null> {
+    const pin = await this.pins.get(toPublicKey(wallet).toString());
+    if (!pin) return null;
+
+    const agent = await this.lookup(wallet);
+    if (!agent || !agent.metadataUri) return null;
+
+    const { document, sha256 } = await this.fetchCard(agent.metadataUri, { cache: false });
+    return {
+      pin,
+      currentHash: sha256,
+      changed: sha256 !== pin.sha256,
+      changes: diffCards(pin.document, document)
+    };
+  }
+
+  /**
+   * Verify the social proof credentials listed in an agent's card
+   *
+   * Credentials must be about the card's owner. Only those signed by one of
+   * `trustedIssuers` count as proofs; self-issued ones are listed as
+   * unverified `claims` (or as proofs with `allowSelfIssued`). Resolves to
+   * null when the wallet has no card.
+   */
+  async getSocialProofs(
+    wallet: string | PublicKey,
+    options: Omit<VerifyCredentialOptions, 'wallet'> = {}
+  ): Promise<SocialProofs | null> {
+    const card = await this.getCard(wallet);
+    if (!card) return null;
+
+    const result: SocialProofs = { proofs: [], claims: [], rejected: [] };
+    for (const credential of card.credentials ?? []) {
+      try {
+        const verified = verifySocialCredential(String(credential), { ...options, wallet, allowSelfIssued: true });
+        const trusted = !verified.selfIssued || options.allowSelfIssued
+          || (options.trustedIssuers ?? []).some((key) => toPublicKey(key).toBase58() === verified.issuer);
+        (trusted ? result.proofs : result.claims).push(verified);
+      } catch (e) {
+        if (!(e instanceof AuthError)) throw e;
+        result.rejected.push({ credential: String(credential), error: e });
+      }
+    }
+    return result;
   }
 
   /**
-   * List all registered agents
+   * Resolve a did:said DID to its DID Document
+   *
+   * Failures are reported the did-resolver way, in
+   * `didResolutionMetadata.error`: invalidDid, notFound, or internalError
+   * when the RPC lookup fails. A card that cannot be read only drops the
+   * services and is noted as `didDocumentMetadata.cardError`.
    */
-  async listAgents(options: { includeCards?: boolean } = {}): Promise<AgentIdentity[]> {
+  async resolveDid(did: string): Promise<DIDResolutionResult> {
+    const failed = (error: 'invalidDid' | 'notFound' | 'internalError', message: string): DIDResolutionResult => ({
+      didResolutionMetadata: { error, message },
+      didDocument: null,
+      didDocumentMetadata: {}
+    });
+
+    let agent: AgentIdentity | null;
     try {
-      const accounts = await this.connection.getProgramAccounts(SAID_PROGRAM_ID, {
-        filters: [{ dataSize: AGENT_ACCOUNT_SIZE }]
-      });
+      agent = await this.lookup(walletFromDid(did));
+    } catch (e) {
+      if (!(e instanceof SAIDError)) throw e;
+      return failed(e instanceof InvalidAddressError ? 'invalidDid' : 'internalError', e.message);
+    }
+    if (!agent) return failed('notFound', `${did} has no SAID identity`);
 
-      const agents = accounts.map(({ pubkey, account }) => 
-        this.parseAgentData(pubkey.toString(), account.data)
-      );
-
-      if (options.includeCards) {
-        await Promise.all(
-          agents.map(async (agent) => {
-            try {
-              let uri = agent.metadataUri;
-              if (uri.includes('saidprotocol.com') && !uri.includes('www.')) {
-                uri = uri.replace('saidprotocol.com', 'www.saidprotocol.com');
-              }
-              const res = await fetch(uri);
-              if (res.ok) {
-                agent.card = await res.json();
-              }
-            } catch (e) {
-              // Skip failed card fetches
-            }
-          })
-        );
+    const metadata = didDocumentMetadata(agent);
+    let card: AgentCard | undefined;
+    if (agent.metadataUri) {
+      try {
+        const { document } = await this.fetchCard(agent.metadataUri);
+        card = this.checkCard(agent, document, {}).card;
+      } catch (e) {
+        if (!(e instanceof SAIDError)) throw e;
+        metadata.cardError = e.message;
       }
+    }
+
+    return {
+      didResolutionMetadata: { contentType: DID_CONTENT_TYPE },
+      didDocument: buildDidDocument(agent, card),
+      didDocumentMetadata: metadata
+    };
+  }
+
+  /**
+   * Fetch the owner's delegation revocation list named by its card's
+   * `revocationList`
+   *
+   * Resolves to null when the wallet is not registered or its card names no
+   * list. Lists are not cached, so a revocation takes effect on the next
+   * check. Throws CardInvalidError when the list is not signed by the owner.
+   */
+  async getRevocations(wallet: string | PublicKey): Promise<RevocationList | null> {
+    const agent = await this.lookup(wallet);
+    if (!agent || !agent.metadataUri) return null;
+
+    const { document } = await this.fetchCard(agent.metadataUri);
+    const uri = (isSignedCard(document) ? document.card : document).revocationList;
+    if (!uri) return null;
+
+    const { body } = await this.limitCardFetch(() => this.resolver.resolve(uri));
+    let list: unknown;
+    try {
+      list = JSON.parse(new TextDecoder().decode(body));
+    } catch (e) {
+      throw new CardInvalidError(uri, 'revocation list is not valid JSON', e);
+    }
+    if (!isRevocationList(list) || !verifyRevocations(list, agent.owner)) {
+      throw new CardInvalidError(uri, `revocation list is not signed by owner ${agent.owner}`);
+    }
+    return list;
+  }
+
+  /**
+   * List registered agents, optionally filtered, sorted and paginated
+   */
+  async listAgents(options: ListAgentsOptions = {}): Promise<AgentIdentity[]> {
+    return (await this.listAgentsPage(options)).agents;
+  }
+
+  /**
+   * List one page of registered agents with a cursor for the next page
+   */
+  async listAgentsPage(options: ListAgentsOptions = {}): Promise<AgentPage> {
+    const sort = options.sort ?? 'key';
+    const direction = options.order === 'desc' ? -1 : 1;
+    const sortValue = (agent: AgentIdentity) => (sort === 'key' ? 0 : agent[sort]);
+    const compare = (a: { value: number; key: string }, b: { value: number; key: string }) =>
+      direction * (a.value - b.value || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const after = options.cursor === undefined ? undefined : decodeListCursor(options.cursor);
+
+    const filters: GetProgramAccountsFilter[] = [
+      { dataSize: AGENT_ACCOUNT_SIZE },
+      { memcmp: { offset: 0, bytes: bs58.encode(AGENT_ACCOUNT_DISCRIMINATOR) } }
+    ];
+    if (options.owner !== undefined) {
+      filters.push({ memcmp: { offset: 8, bytes: toPublicKey(options.owner).toBase58() } });
+    }
+
+    const keyOnly = sort === 'key' && options.limit !== undefined &&
+      options.verified === undefined && options.registeredAfter === undefined;
+
+    let page: AgentIdentity[];
+    let total: number;
+    let more: boolean;
+    if (keyOnly) {
+      // Scan keys only, then fetch just the accounts on this page
+      const keys = (await this.scanAgentAccounts(filters, true))
+        .map(({ pubkey }) => pubkey.toString())
+        .sort((a, b) => compare({ value: 0, key: a }, { value: 0, key: b }));
+      const remaining = keys.filter((key) => !after || compare({ value: 0, key }, after) > 0)
+        .slice(options.offset ?? 0);
+      total = keys.length;
+      more = remaining.length > options.limit!;
+      page = await this.fetchAgentAccounts(remaining.slice(0, options.limit));
+    } else {
+      const agents = (await this.scanAgentAccounts(filters, false))
+        .map(({ pubkey, account }) => this.parseAgentData(pubkey.toString(), account.data))
+        .filter((agent) => options.verified === undefined || agent.isVerified === options.verified)
+        .filter((agent) => options.registeredAfter === undefined || agent.registeredAt > options.registeredAfter)
+        .sort((a, b) => compare({ value: sortValue(a), key: a.pubkey }, { value: sortValue(b), key: b.pubkey }));
+      const remaining = agents
+        .filter((agent) => !after || compare({ value: sortValue(agent), key: agent.pubkey }, after) > 0)
+        .slice(options.offset ?? 0);
+      total = agents.length;
+      more = options.limit !== undefined && remaining.length > options.limit;
+      page = options.limit === undefined ? remaining : remaining.slice(0, options.limit);
+    }
 
-      return agents;
+    if (options.includeCards) {
+      // Fetches are bounded by cardConcurrency; failures are reported per agent as cardError
+      await Promise.all(page.map((agent) => this.attachCard(agent)));
+    }
+
+    const last = page[page.length - 1];
+    return {
+      agents: page,
+      total,
+      nextCursor: more && last ? encodeListCursor(sortValue(last), last.pubkey) : undefined
+    };
+  }
+
+  /**
+   * Run getProgramAccounts for agent accounts, optionally returning keys only
+   */
+  private async scanAgentAccounts(filters: GetProgramAccountsFilter[], keysOnly: boolean) {
+    try {
+      return await this.connection.getProgramAccounts(this.cluster.programId, {
+        filters,
+        dataSlice: keysOnly ? { offset: 0, length: 0 } : undefined
+      });
     } catch (e) {
-      return [];
+      throw new RpcUnavailableError('Failed to list agents', e);
     }
   }
 
+  /**
+   * Fetch and decode agent accounts by PDA, in order, skipping closed accounts
+   */
+  private async fetchAgentAccounts(pdas: string[]): Promise<AgentIdentity[]> {
+    const agents: AgentIdentity[] = [];
+    for (let i = 0; i < pdas.length; i += MULTIPLE_ACCOUNTS_BATCH_SIZE) {
+      const chunk = pdas.slice(i, i + MULTIPLE_ACCOUNTS_BATCH_SIZE);
+      let infos;
+      try {
+        infos = await this.connection.getMultipleAccountsInfo(chunk.map((pda) => new PublicKey(pda)));
+      } catch (e) {
+        throw new RpcUnavailableError('Failed to list agents', e);
+      }
+      infos.forEach((info, j) => {
+        if (info) agents.push(this.parseAgentData(chunk[j], info.data));
+      });
+    }
+    return agents;
+  }
+
+  /**
+   * Watch one wallet's agent account for registration, verification and
+   * metadata URI changes
+   *
+   * Events are emitted relative to the state read when the watcher starts.
+   * On resubscribe the account is re-read and missed changes are emitted.
+   */
+  async watchAgent(
+    wallet: string | PublicKey,
+    onEvent: AgentEventHandler,
+    options: WatchOptions = {}
+  ): Promise<AgentWatcher> {
+    const [agentPDA] = this.deriveAgentPDA(wallet);
+    let known: AgentIdentity | null = null;
+
+    const update = (next: AgentIdentity | null, emit: boolean, slot?: number) => {
+      if (!next) return;
+      if (emit) agentEvents(known, next, slot).forEach(onEvent);
+      known = next;
+    };
+
+    return startWatcher(this.connection, {
+      sync: async (initial) => {
+        await this.cache?.store.delete(this.identityCacheKey(agentPDA));
+        update(await this.fetchIdentity(agentPDA), !initial);
+      },
+      subscribe: () => this.connection.onAccountChange(agentPDA, (info, context) => {
+        if (!AgentAccountCodec.isAgentAccount(info.data)) return;
+        try {
+          const next = this.parseAgentData(agentPDA.toString(), info.data);
+          update(next, true, context.slot);
+          // Keep cached lookups in step with what the watcher saw
+          this.writeCachedIdentity(agentPDA, next).catch((e) => options.onError?.(e));
+        } catch (e) {
+          options.onError?.(e);
+        }
+      }, this.config.commitment),
+      unsubscribe: (id) => this.connection.removeAccountChangeListener(id)
+    }, options);
+  }
+
+  /**
+   * Watch every agent account of the program
+   *
+   * The watcher starts from a listAgents snapshot, so accounts created after
+   * it are reported as 'registered'. On resubscribe the snapshot is taken
+   * again and missed changes are emitted.
+   */
+  async watchRegistry(onEvent: AgentEventHandler, options: WatchOptions = {}): Promise<AgentWatcher> {
+    const known = new Map<string, AgentIdentity>();
+
+    const update = (next: AgentIdentity, emit: boolean, slot?: number) => {
+      if (emit) agentEvents(known.get(next.pubkey), next, slot).forEach(onEvent);
+      known.set(next.pubkey, next);
+    };
+
+    return startWatcher(this.connection, {
+      sync: async (initial) => {
+        for (const agent of await this.listAgents()) update(agent, !initial);
+      },
+      subscribe: () => this.connection.onProgramAccountChange(
+        this.cluster.programId,
+        ({ accountId, accountInfo }, context) => {
+          if (!AgentAccountCodec.isAgentAccount(accountInfo.data)) return;
+          try {
+            update(this.parseAgentData(accountId.toString(), accountInfo.data), true, context.slot);
+          } catch (e) {
+            options.onError?.(e);
+          }
+        },
+        this.config.commitment,
+        [{ dataSize: AGENT_ACCOUNT_SIZE }]
+      ),
+      unsubscribe: (id) => this.connection.removeProgramAccountChangeListener(id)
+    }, options);
+  }
+
   /**
    * Count total registered and verified agents
    */
@@ -305,7 +1223,7 @@ export class SAID {
   /**
    * Build registerAgent instruction
    */
-  private buildRegisterInstruction(
+  buildRegisterInstruction(
     agentPDA: PublicKey,
     owner: PublicKey,
     metadataUri: string
@@ -327,7 +1245,7 @@ export class SAID {
         { pubkey: owner, isSigner: true, isWritable: true },
         { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
       ],
-      programId: SAID_PROGRAM_ID,
+      programId: this.cluster.programId,
       data
     });
   }
@@ -335,22 +1253,231 @@ export class SAID {
   /**
    * Build verifyAgent instruction
    */
-  private buildVerifyInstruction(
+  buildVerifyInstruction(
     agentPDA: PublicKey,
     owner: PublicKey
   ): TransactionInstruction {
     return new TransactionInstruction({
       keys: [
         { pubkey: agentPDA, isSigner: false, isWritable: true },
-        { pubkey: TREASURY_PDA, isSigner: false, isWritable: true },
+        { pubkey: this.cluster.treasuryPDA, isSigner: false, isWritable: true },
         { pubkey: owner, isSigner: true, isWritable: true },
         { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
       ],
-      programId: SAID_PROGRAM_ID,
+      programId: this.cluster.programId,
       data: GET_VERIFIED_DISCRIMINATOR
     });
   }
 
+  /**
+   * Wrap instructions in an unsigned transaction with a recent blockhash
+   */
+  private async buildTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    versioned?: boolean
+  ): Promise<Transaction | VersionedTransaction> {
+    let latest;
+    try {
+      latest = await this.connection.getLatestBlockhash();
+    } catch (e) {
+      throw new RpcUnavailableError('Failed to fetch recent blockhash', e);
+    }
+    const { blockhash, lastValidBlockHeight } = latest;
+
+    if (versioned) {
+      const message = new TransactionMessage({
+        payerKey: feePayer,
+        recentBlockhash: blockhash,
+        instructions
+      }).compileToV0Message();
+      return new VersionedTransaction(message);
+    }
+
+    return new Transaction({ feePayer, blockhash, lastValidBlockHeight }).add(...instructions);
+  }
+
+  /**
+   * Build an unsigned registerAgent transaction
+   *
+   * The owner must sign; the fee payer (defaults to the owner) must sign too
+   * when it is a different account.
+   *
+   * @param owner - The agent's wallet address
+   * @param metadataUri - URL where AgentCard JSON is hosted
+   * @param options - Fee payer override and legacy/versioned format
+   */
+  async buildRegisterTransaction(
+    owner: PublicKey | string,
+    metadataUri: string,
+    options?: BuildTransactionOptions & { versioned?: false }
+  ): Promise<Transaction>;
+  async buildRegisterTransaction(
+    owner: PublicKey | string,
+    metadataUri: string,
+    options: BuildTransactionOptions & { versioned: true }
+  ): Promise<VersionedTransaction>;
+  async buildRegisterTransaction(
+    owner: PublicKey | string,
+    metadataUri: string,
+    options: BuildTransactionOptions = {}
+  ): Promise<Transaction | VersionedTransaction> {
+    const ownerKey = toPublicKey(owner);
+    const [agentPDA] = this.deriveAgentPDA(ownerKey);
+    const feePayer = options.feePayer ? toPublicKey(options.feePayer) : ownerKey;
+
+    return this.buildTransaction(
+      [this.buildRegisterInstruction(agentPDA, ownerKey, metadataUri)],
+      feePayer,
+      options.versioned
+    );
+  }
+
+  /**
+   * Build an unsigned verifyAgent transaction (owner pays 0.01 SOL fee)
+   *
+   * @param owner - The agent's wallet address
+   * @param options - Fee payer override and legacy/versioned format
+   */
+  async buildVerifyTransaction(
+    owner: PublicKey | string,
+    options?: BuildTransactionOptions & { versioned?: false }
+  ): Promise<Transaction>;
+  async buildVerifyTransaction(
+    owner: PublicKey | string,
+    options: BuildTransactionOptions & { versioned: true }
+  ): Promise<VersionedTransaction>;
+  async buildVerifyTransaction(
+    owner: PublicKey | string,
+    options: BuildTransactionOptions = {}
+  ): Promise<Transaction | VersionedTransaction> {
+    const ownerKey = toPublicKey(owner);
+    const [agentPDA] = this.deriveAgentPDA(ownerKey);
+    const feePayer = options.feePayer ? toPublicKey(options.feePayer) : ownerKey;
+
+    return this.buildTransaction(
+      [this.buildVerifyInstruction(agentPDA, ownerKey)],
+      feePayer,
+      options.versioned
+    );
+  }
+
+  /**
+   * Minimum balance for a rent-exempt account of the given size
+   */
+  private async getRent(size: number): Promise<number> {
+    try {
+      return await this.connection.getMinimumBalanceForRentExemption(size);
+    } catch (e) {
+      throw new RpcUnavailableError('Failed to fetch rent exemption', e);
+    }
+  }
+
+  private async getBalance(wallet: PublicKey): Promise<number> {
+    try {
+      return await this.connection.getBalance(wallet);
+    } catch (e) {
+      throw new RpcUnavailableError(`Failed to fetch balance of ${wallet.toString()}`, e);
+    }
+  }
+
+  /**
+   * Simulate instructions and break down what they would cost
+   */
+  private async estimate(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    rent: number,
+    verificationFee: number,
+    sendOptions: SendOptions = {}
+  ): Promise<CostEstimate> {
+    const simulation = await simulateInstructions(this.connection, instructions, feePayer, {
+      ...this.config.send,
+      ...sendOptions
+    });
+
+    return {
+      willSucceed: simulation.err === null,
+      rent,
+      verificationFee,
+      networkFee: simulation.networkFee,
+      total: rent + verificationFee + simulation.networkFee,
+      priorityFee: simulation.priorityFee,
+      unitsConsumed: simulation.unitsConsumed,
+      logs: simulation.logs,
+      error: simulation.err ? decodeSimulationError(simulation.err, simulation.logs) : undefined
+    };
+  }
+
+  /**
+   * Simulate registering a wallet without sending anything
+   *
+   * @param owner - The agent's wallet address
+   * @param metadataUri - URL where AgentCard JSON is hosted
+   * @param options - Fee payer override and the send options to price with
+   * @returns Rent, network fee, logs and the decoded error if it would fail
+   */
+  async estimateRegister(
+    owner: PublicKey | string,
+    metadataUri: string,
+    options: EstimateOptions = {}
+  ): Promise<CostEstimate> {
+    const ownerKey = toPublicKey(owner);
+    const [agentPDA] = this.deriveAgentPDA(ownerKey);
+    const feePayer = options.feePayer ? toPublicKey(options.feePayer) : ownerKey;
+
+    const rent = await this.getRent(AGENT_ACCOUNT_SIZE);
+
+    return this.estimate(
+      [this.buildRegisterInstruction(agentPDA, ownerKey, metadataUri)],
+      feePayer,
+      rent,
+      0,
+      options.send
+    );
+  }
+
+  /**
+   * Simulate verifying a registered wallet without sending anything
+   *
+   * @param owner - The agent's wallet address
+   * @param options - Fee payer override and the send options to price with
+   * @returns Verification fee, network fee, logs and the decoded error if it would fail
+   */
+  async estimateVerify(
+    owner: PublicKey | string,
+    options: EstimateOptions = {}
+  ): Promise<CostEstimate> {
+    const ownerKey = toPublicKey(owner);
+    const [agentPDA] = this.deriveAgentPDA(ownerKey);
+    const feePayer = options.feePayer ? toPublicKey(options.feePayer) : ownerKey;
+
+    return this.estimate(
+      [this.buildVerifyInstruction(agentPDA, ownerKey)],
+      feePayer,
+      0,
+      VERIFICATION_FEE,
+      options.send
+    );
+  }
+
+  /**
+   * Send instructions through the shared pipeline (priority fees, compute
+   * limits, rebroadcast and blockhash refresh), merging per-call options
+   * over the instance defaults
+   */
+  private async send(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    signers: SignerLike[],
+    options: SendOptions = {}
+  ): Promise<SendResult> {
+    return sendInstructions(this.connection, instructions, feePayer, signers, {
+      ...this.config.send,
+      ...options
+    });
+  }
+
   /**
    * Create a new agent with zero friction
    * 
@@ -358,18 +1485,20 @@ export class SAID {
    * and optionally verifies them. The funder pays for registration rent.
    * 
    * @param options - Agent metadata (name, description, skills, etc.)
-   * @param funder - Keypair that pays for registration (our treasury)
+   * @param funder - Keypair or external signer that pays for registration (our treasury)
    * @param metadataUri - URL where AgentCard JSON is hosted
+   * @param sendOptions - Priority fee, compute limit and retry settings
    * @returns CreateAgentResult with wallet, PDA, and transaction signature
    */
   async createAgent(
     options: CreateAgentOptions,
-    funder: Keypair,
-    metadataUri: string
+    funder: SignerLike,
+    metadataUri: string,
+    sendOptions?: SendOptions
   ): Promise<CreateAgentResult> {
-    // Generate new wallet for the agent
-    const wallet = Keypair.generate();
-    const [agentPDA] = SAID.deriveAgentPDA(wallet.publicKey);
+    // Generate new wallet for the agent unless one was supplied
+    const wallet = options.wallet ?? Keypair.generate();
+    const [agentPDA] = this.deriveAgentPDA(wallet.publicKey);
 
     // Build register instruction
     const registerIx = this.buildRegisterInstruction(
@@ -381,31 +1510,22 @@ export class SAID {
     // We need to fund the new wallet with enough for rent
     // The agent account is created by the program, but owner needs to sign
     // So funder transfers rent to wallet first, then wallet signs register tx
-    
-    // Calculate rent (approximately 0.00285 SOL for 263 bytes)
-    const rentExempt = await this.connection.getMinimumBalanceForRentExemption(AGENT_ACCOUNT_SIZE);
-    
-    // Build transaction: funder sends rent to wallet, then wallet registers
-    const tx = new Transaction();
-    
-    // Transfer 2x rent to new wallet - covers PDA creation + remaining balance
-    tx.add(
-      SystemProgram.transfer({
-        fromPubkey: funder.publicKey,
-        toPubkey: wallet.publicKey,
-        lamports: rentExempt * 2 // ~0.0054 SOL - plenty for PDA + fees
-      })
-    );
-    
-    // Add register instruction (signed by new wallet)
-    tx.add(registerIx);
+    const rent = await this.getRent(AGENT_ACCOUNT_SIZE);
+
+    // Build transaction: funder sends exactly the PDA rent to the wallet and
+    // pays the network fee itself, so the wallet ends up empty
+    const transferIx = SystemProgram.transfer({
+      fromPubkey: funder.publicKey,
+      toPubkey: wallet.publicKey,
+      lamports: rent
+    });
 
     // Send transaction (signed by both funder and new wallet)
-    const signature = await sendAndConfirmTransaction(
-      this.connection,
-      tx,
-      [funder, wallet],
-      { commitment: 'confirmed' }
+    const confirmation = await this.send(
+      [transferIx, registerIx],
+      funder.publicKey,
+      [wallet, funder],
+      sendOptions
     );
 
     return {
@@ -414,108 +1534,271 @@ export class SAID {
       secretKey: bs58.encode(wallet.secretKey),
       agentPDA: agentPDA.toString(),
       metadataUri,
-      txSignature: signature
+      txSignature: confirmation.signature,
+      confirmation
     };
   }
 
   /**
    * Register an existing wallet on SAID
    * 
-   * @param wallet - The agent's existing wallet keypair
+   * @param wallet - The agent's existing wallet keypair or external signer
    * @param metadataUri - URL where AgentCard JSON is hosted
    * @param funder - Optional separate funder for rent (defaults to wallet)
+   * @param sendOptions - Priority fee, compute limit and retry settings
    */
   async registerAgent(
-    wallet: Keypair,
+    wallet: SignerLike,
     metadataUri: string,
-    funder?: Keypair
-  ): Promise<{ agentPDA: string; txSignature: string }> {
-    const [agentPDA] = SAID.deriveAgentPDA(wallet.publicKey);
+    funder?: SignerLike,
+    sendOptions?: SendOptions
+  ): Promise<{ agentPDA: string; txSignature: string; confirmation: SendResult }> {
+    const [agentPDA] = this.deriveAgentPDA(wallet.publicKey);
     const payer = funder || wallet;
 
-    const registerIx = this.buildRegisterInstruction(
-      agentPDA,
-      wallet.publicKey,
-      metadataUri
-    );
-
-    const tx = new Transaction().add(registerIx);
+    const registerIx = this.buildRegisterInstruction(agentPDA, wallet.publicKey, metadataUri);
     
     const signers = funder ? [funder, wallet] : [wallet];
-    const signature = await sendAndConfirmTransaction(
-      this.connection,
-      tx,
-      signers,
-      { commitment: 'confirmed' }
-    );
+    const confirmation = await this.send([registerIx], payer.publicKey, signers, sendOptions);
+    await this.invalidate(wallet.publicKey);
 
     return {
       agentPDA: agentPDA.toString(),
-      txSignature: signature
+      txSignature: confirmation.signature,
+      confirmation
     };
   }
 
   /**
    * Verify an existing agent (pays 0.01 SOL verification fee)
    * 
-   * @param wallet - The agent's wallet keypair
+   * @param wallet - The agent's wallet keypair or external signer
+   * @param sendOptions - Priority fee, compute limit and retry settings
    */
-  async verifyAgent(wallet: Keypair): Promise<{ txSignature: string }> {
-    const [agentPDA] = SAID.deriveAgentPDA(wallet.publicKey);
-
+  async verifyAgent(
+    wallet: SignerLike,
+    sendOptions?: SendOptions
+  ): Promise<{ txSignature: string; confirmation: SendResult }> {
+    const [agentPDA] = this.deriveAgentPDA(wallet.publicKey);
     const verifyIx = this.buildVerifyInstruction(agentPDA, wallet.publicKey);
-    const tx = new Transaction().add(verifyIx);
 
-    const signature = await sendAndConfirmTransaction(
-      this.connection,
-      tx,
-      [wallet],
-      { commitment: 'confirmed' }
-    );
+    const confirmation = await this.send([verifyIx], wallet.publicKey, [wallet], sendOptions);
+    await this.invalidate(wallet.publicKey);
 
-    return { txSignature: signature };
+    return { txSignature: confirmation.signature, confirmation };
   }
 
   /**
-   * Create and verify an agent in one transaction
-   * Zero friction: agent gets wallet + registration + verification
-   * Funder pays rent (~0.003 SOL), agent pays verification (0.01 SOL)
-   * Net cost to funder: ~0.003 SOL, Net revenue: 0.01 SOL = +0.007 SOL profit
+   * Create and verify an agent, atomically where possible
+   *
+   * Funding, registration and verification go into one transaction when it
+   * fits; otherwise each step is its own transaction carrying its own
+   * funding, so a failure never strands lamports in the agent wallet. The
+   * funder pays rent, the verification fee and all network fees.
+   *
+   * Pass `flow.wallet` to resume an interrupted run: the current state is
+   * read with `lookup` and the wallet balance, and only missing steps run.
+   *
+   * @param options - Agent metadata (name, description, skills, etc.)
+   * @param funder - Keypair or external signer paying for everything
+   * @param metadataUri - URL where AgentCard JSON is hosted
+   * @param sendOptions - Priority fee, compute limit and retry settings
+   * @param flow - Wallet to resume, atomic preference and lamport sweep
    */
   async createAndVerifyAgent(
     options: CreateAgentOptions,
-    funder: Keypair,
-    metadataUri: string
-  ): Promise<CreateAgentResult & { verified: boolean }> {
-    // First create the agent
-    const result = await this.createAgent(options, funder, metadataUri);
-    
-    // Fund wallet with verification fee (0.01 SOL)
-    const VERIFICATION_FEE = 10_000_000; // 0.01 SOL in lamports
-    
-    const fundTx = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: funder.publicKey,
-        toPubkey: result.wallet.publicKey,
-        lamports: VERIFICATION_FEE + 5000 // verification fee + tx fee buffer
-      })
-    );
-    
-    await sendAndConfirmTransaction(
-      this.connection,
-      fundTx,
-      [funder],
-      { commitment: 'confirmed' }
-    );
+    funder: SignerLike,
+    metadataUri: string,
+    sendOptions?: SendOptions,
+    flow: CreateAndVerifyOptions = {}
+  ): Promise<CreateAndVerifyResult> {
+    const wallet = flow.wallet ?? options.wallet ?? Keypair.generate();
+    const [agentPDA] = this.deriveAgentPDA(wallet.publicKey);
 
-    // Now verify
-    try {
-      await this.verifyAgent(result.wallet);
-      return { ...result, verified: true };
-    } catch (e) {
-      // Return result even if verification fails
-      return { ...result, verified: false };
+    // Detect what an earlier run already finished
+    await this.invalidate(wallet.publicKey);
+    const [existing, balance, agentRent, minimumBalance] = await Promise.all([
+      this.lookup(wallet.publicKey),
+      this.getBalance(wallet.publicKey),
+      this.getRent(AGENT_ACCOUNT_SIZE),
+      this.getRent(0)
+    ]);
+
+    const pending: { step: AgentSetupStep; cost: number; instruction: TransactionInstruction }[] = [];
+    if (!existing) {
+      pending.push({
+        step: 'register',
+        cost: agentRent,
+        instruction: this.buildRegisterInstruction(agentPDA, wallet.publicKey, metadataUri)
+      });
     }
+    if (!existing?.isVerified) {
+      pending.push({
+        step: 'verify',
+        cost: VERIFICATION_FEE,
+        instruction: this.buildVerifyInstruction(agentPDA, wallet.publicKey)
+      });
+    }
+
+    // Top up exactly what a group of steps costs and return any leftover that
+    // cannot stay rent-exempt (or everything, when sweeping after the last step)
+    let available = balance;
+    const plan = (group: typeof pending, last: boolean) => {
+      const cost = group.reduce((sum, step) => sum + step.cost, 0);
+      const topUp = Math.max(0, cost - available);
+      const leftover = available + topUp - cost;
+      const sweep = leftover > 0 && (leftover < minimumBalance || (last && !!flow.sweep)) ? leftover : 0;
+
+      const instructions: TransactionInstruction[] = [];
+      if (topUp > 0) {
+        instructions.push(SystemProgram.transfer({ fromPubkey: funder.publicKey, toPubkey: wallet.publicKey, lamports: topUp }));
+      }
+      instructions.push(...group.map((step) => step.instruction));
+      if (sweep > 0) {
+        instructions.push(SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: funder.publicKey, lamports: sweep }));
+      }
+      const steps: AgentSetupStep[] = group.map((step) => step.step);
+      if (sweep > 0) steps.push('sweep');
+      return { instructions, steps, sweep, leftover: leftover - sweep };
+    };
+
+    const single = plan(pending, true);
+    const atomic = flow.atomic !== false && fitsInTransaction(single.instructions, funder.publicKey);
+    const groups = atomic || pending.length <= 1 ? [pending] : pending.map((step) => [step]);
+
+    const result: CreateAndVerifyResult = {
+      wallet,
+      walletAddress: wallet.publicKey.toString(),
+      secretKey: bs58.encode(wallet.secretKey),
+      agentPDA: agentPDA.toString(),
+      metadataUri: existing?.metadataUri ?? metadataUri,
+      verified: !!existing?.isVerified,
+      atomic: atomic && pending.length > 1,
+      steps: [],
+      transactions: [],
+      swept: 0
+    };
+
+    for (let i = 0; i < groups.length; i++) {
+      const { instructions, steps, sweep, leftover } = plan(groups[i], i === groups.length - 1);
+      if (instructions.length === 0) break;
+
+      try {
+        const confirmation = await this.send(instructions, funder.publicKey, [funder, wallet], sendOptions);
+        result.transactions.push(confirmation);
+        result.txSignature = confirmation.signature;
+      } catch (e) {
+        // Nothing landed yet: surface the failure like any other write
+        if (result.transactions.length === 0) throw e;
+        result.error = e instanceof SAIDError ? e : new TransactionFailedError(String(e), undefined, undefined, e);
+        break;
+      }
+
+      available = leftover;
+      result.steps.push(...steps);
+      result.swept += sweep;
+      if (steps.includes('verify')) result.verified = true;
+    }
+
+    await this.invalidate(wallet.publicKey);
+    return result;
+  }
+
+  /**
+   * Bring a fleet of agents to the state declared in a manifest
+   *
+   * Diffs every agent against on-chain state with one batched lookup, then
+   * runs only the missing register/verify steps, one agent at a time. Each
+   * agent's wallet pays its own rent and fees. Re-running is safe: finished
+   * steps are skipped, and a failure on one agent does not stop the rest.
+   *
+   * @param manifest - Agents, keypair sources and desired state
+   * @param options - Plan-only preview, keypair sources and send settings
+   * @returns Per-agent report of what was (or would be) done
+   */
+  async applyFleet(manifest: FleetManifest, options: ApplyFleetOptions = {}): Promise<FleetReport> {
+    const startedAt = new Date().toISOString();
+    const { agents } = parseFleetManifest(manifest);
+
+    // Resolve addresses; keypairs are only decrypted when something is sent
+    const results: FleetAgentResult[] = [];
+    for (const spec of agents) {
+      const result: FleetAgentResult = {
+        name: spec.name,
+        desired: spec.state ?? 'registered',
+        actions: [],
+        completed: [],
+        status: 'unchanged',
+        txSignatures: []
+      };
+      results.push(result);
+      try {
+        const address = await loadFleetAddress(spec.keypair, options);
+        result.wallet = address.toString();
+        result.agentPDA = this.deriveAgentPDA(address)[0].toString();
+      } catch (e) {
+        failResult(result, e);
+      }
+    }
+
+    // Diff against fresh on-chain state
+    const wallets = results.filter((r) => r.status !== 'failed').map((r) => r.wallet!);
+    await Promise.all(wallets.map((wallet) => this.invalidate(wallet)));
+    const onChain = await this.lookupMany(wallets);
+
+    for (const result of results) {
+      if (result.status === 'failed') continue;
+      const found = onChain.get(result.wallet!);
+      if (found instanceof SAIDError) {
+        failResult(result, found);
+        continue;
+      }
+
+      result.before = !found ? 'unregistered' : found.isVerified ? 'verified' : 'registered';
+      if (!found) result.actions.push('register');
+      if (result.desired === 'verified' && !found?.isVerified) result.actions.push('verify');
+      if (result.actions.length > 0) result.status = 'planned';
+    }
+
+    if (!options.plan) {
+      for (let i = 0; i < agents.length; i++) {
+        const spec = agents[i];
+        const result = results[i];
+        if (result.status !== 'planned') continue;
+
+        try {
+          const wallet = await loadFleetWallet(spec.keypair, options);
+          for (const action of result.actions) {
+            if (action === 'register') {
+              const metadataUri = spec.metadataUri ?? await options.resolveMetadataUri?.(spec, result.wallet!);
+              if (!metadataUri) {
+                throw new Error('metadataUri is required to register (or pass resolveMetadataUri)');
+              }
+              const { txSignature } = await this.registerAgent(wallet, metadataUri, undefined, options.send);
+              result.txSignatures.push(txSignature);
+            } else {
+              const { txSignature } = await this.verifyAgent(wallet, options.send);
+              result.txSignatures.push(txSignature);
+            }
+            result.completed.push(action);
+          }
+          result.status = 'applied';
+        } catch (e) {
+          failResult(result, e);
+        }
+      }
+    }
+
+    const summary = { unchanged: 0, planned: 0, applied: 0, failed: 0 };
+    results.forEach((result) => summary[result.status]++);
+
+    return {
+      plan: !!options.plan,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      summary,
+      agents: results
+    };
   }
 }
 
@@ -526,9 +1809,13 @@ export const said = new SAID();
 export const lookup = (wallet: string | PublicKey) => said.lookup(wallet);
 export const isVerified = (wallet: string | PublicKey) => said.isVerified(wallet);
 export const isRegistered = (wallet: string | PublicKey) => said.isRegistered(wallet);
-export const getCard = (wallet: string | PublicKey) => said.getCard(wallet);
-export const getAgent = (wallet: string | PublicKey) => said.getAgent(wallet);
-export const listAgents = (options?: { includeCards?: boolean }) => said.listAgents(options);
+export const getCard = (wallet: string | PublicKey, options?: CardReadOptions) => said.getCard(wallet, options);
+export const getAgent = (wallet: string | PublicKey, options?: CardReadOptions) => said.getAgent(wallet, options);
+export const lookupMany = (wallets: (string | PublicKey)[]) => said.lookupMany(wallets);
+export const isVerifiedMany = (wallets: (string | PublicKey)[]) => said.isVerifiedMany(wallets);
+export const getAgentsMany = (wallets: (string | PublicKey)[]) => said.getAgentsMany(wallets);
+export const listAgents = (options?: ListAgentsOptions) => said.listAgents(options);
+export const resolveDid = (did: string) => said.resolveDid(did);
 export const getStats = () => said.getStats();
 
 export default SAID;
@@ -0,0 +1,222 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promises as fs } from 'fs';
+import { KeystoreError } from './errors';
+
+/**
+ * Encrypted keypair file (scrypt key derivation, AES-256-GCM)
+ */
+export interface Keystore {
+  version: 1;
+  type: 'said-keystore';
+  publicKey: string; // Readable without the password
+  crypto: {
+    cipher: 'aes-256-gcm';
+    kdf: 'scrypt';
+    kdfparams: { n: number; r: number; p: number; dklen: 32; salt: string }; // salt hex
+    iv: string;          // hex
+    tag: string;         // hex GCM auth tag
+    ciphertext: string;  // hex of the 64-byte secret key
+  };
+}
+
+/**
+ * scrypt cost parameters for new keystores
+ */
+export interface KeystoreOptions {
+  scryptN?: number; // CPU/memory cost, power of two up to 2^20 (default 2^17)
+  scryptR?: number; // Block size, 1-16 (default 8)
+  scryptP?: number; // Parallelism, 1-16 (default 1)
+}
+
+/**
+ * Password for an encrypted keypair file, or a callback asked only when the
+ * file turns out to be encrypted
+ */
+export type PasswordSource = string | (() => string | Promise<string>);
+
+export const DEFAULT_KEYSTORE_OPTIONS = {
+  scryptN: 2 ** 17,
+  scryptR: 8,
+  scryptP: 1
+};
+
+// Upper bounds on the scrypt costs a keystore may ask for, so loading a
+// hostile or corrupt file cannot exhaust memory or CPU
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 16;
+const MAX_SCRYPT_MEMORY = 2 ** 30; // 128 * N * r bytes
+
+/**
+ * Why scrypt parameters are unsafe or invalid, or null when they are fine
+ */
+function scryptParamsProblem(n: unknown, r: unknown, p: unknown): string | null {
+  if (!Number.isInteger(n) || !Number.isInteger(r) || !Number.isInteger(p)) {
+    return 'scrypt parameters must be integers';
+  }
+  const [cost, blockSize, parallelism] = [n as number, r as number, p as number];
+  if (cost < 2 || cost > MAX_SCRYPT_N || (cost & (cost - 1)) !== 0) {
+    return `scrypt N must be a power of two up to 2^20 (got ${cost})`;
+  }
+  if (blockSize < 1 || blockSize > MAX_SCRYPT_R || parallelism < 1 || parallelism > MAX_SCRYPT_P) {
+    return `scrypt r and p must be between 1 and 16 (got r=${blockSize}, p=${parallelism})`;
+  }
+  if (128 * cost * blockSize > MAX_SCRYPT_MEMORY) {
+    return `scrypt N * r needs more than 1 GiB (got N=${cost}, r=${blockSize})`;
+  }
+  return null;
+}
+
+function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // scrypt needs 128 * N * r bytes; lift Node's 32 MB default accordingly
+    scrypt(password.normalize('NFKC'), salt, 32, { N: n, r, p, maxmem: 256 * n * r }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Whether a parsed JSON value is an encrypted keystore
+ */
+export function isKeystore(value: unknown): value is Keystore {
+  return typeof value === 'object' && value !== null && (value as Keystore).type === 'said-keystore';
+}
+
+/**
+ * Encrypt a keypair with a password
+ */
+export async function encryptKeypair(
+  keypair: Keypair,
+  password: string,
+  options: KeystoreOptions = {}
+): Promise<Keystore> {
+  const { scryptN: n, scryptR: r, scryptP: p } = { ...DEFAULT_KEYSTORE_OPTIONS, ...options };
+  const problem = scryptParamsProblem(n, r, p);
+  if (problem) throw new Error(problem);
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKey(password, salt, n, r, p);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+
+  return {
+    version: 1,
+    type: 'said-keystore',
+    publicKey: keypair.publicKey.toString(),
+    crypto: {
+      cipher: 'aes-256-gcm',
+      kdf: 'scrypt',
+      kdfparams: { n, r, p, dklen: 32, salt: salt.toString('hex') },
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex')
+    }
+  };
+}
+
+/**
+ * Decrypt a keystore; throws KeystoreError on a wrong password or tampering
+ *
+ * @param source - Shown in error messages (usually the file path)
+ */
+export async function decryptKeypair(keystore: Keystore, password: string, source = 'keystore'): Promise<Keypair> {
+  if (keystore.version !== 1 || keystore.crypto?.cipher !== 'aes-256-gcm' || keystore.crypto.kdf !== 'scrypt') {
+    throw new KeystoreError(source, 'unsupported keystore version or cipher');
+  }
+
+  const { kdfparams, iv, tag, ciphertext } = keystore.crypto;
+  const problem = scryptParamsProblem(kdfparams?.n, kdfparams?.r, kdfparams?.p);
+  if (problem) throw new KeystoreError(source, problem);
+
+  let key: Buffer;
+  try {
+    key = await deriveKey(password, Buffer.from(String(kdfparams.salt), 'hex'), kdfparams.n, kdfparams.r, kdfparams.p);
+  } catch (e) {
+    throw new KeystoreError(source, 'key derivation failed', e);
+  }
+
+  let secretKey: Buffer;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+    secretKey = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]);
+  } catch (e) {
+    throw new KeystoreError(source, 'wrong password or corrupted keystore', e);
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+  if (keypair.publicKey.toString() !== keystore.publicKey) {
+    throw new KeystoreError(source, 'decrypted key does not match the keystore public key');
+  }
+  return keypair;
+}
+
+/**
+ * Load a keypair file, plaintext (Solana CLI byte array) or encrypted
+ *
+ * @param path - File to read
+ * @param password - Password or callback; only used for encrypted files
+ */
+export async function loadKeypair(path: string, password?: PasswordSource): Promise<Keypair> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (e) {
+    throw new KeystoreError(path, e instanceof Error ? e.message : String(e), e);
+  }
+
+  if (Array.isArray(parsed)) {
+    try {
+      return Keypair.fromSecretKey(Uint8Array.from(parsed));
+    } catch (e) {
+      throw new KeystoreError(path, 'not a 64-byte secret key', e);
+    }
+  }
+  if (!isKeystore(parsed)) {
+    throw new KeystoreError(path, 'expected a secret key byte array or an encrypted keystore');
+  }
+
+  if (password === undefined) {
+    throw new KeystoreError(path, 'file is encrypted and no password was given');
+  }
+  const secret = typeof password === 'function' ? await password() : password;
+  return decryptKeypair(parsed, secret, path);
+}
+
+/**
+ * Write a keypair file readable only by the current user
+ *
+ * Without a password the file is a plaintext byte array compatible with the
+ * Solana CLI; with one it is an encrypted keystore.
+ */
+export async function saveKeypair(
+  path: string,
+  keypair: Keypair,
+  password?: string,
+  options: KeystoreOptions = {}
+): Promise<void> {
+  const contents = password === undefined
+    ? JSON.stringify(Array.from(keypair.secretKey))
+    : JSON.stringify(await encryptKeypair(keypair, password, options), null, 2);
+  await fs.writeFile(path, contents, { mode: 0o600 });
+  await fs.chmod(path, 0o600); // writeFile only applies the mode to new files
+}
+
+/**
+ * Read a keypair file's address without decrypting it
+ */
+export async function loadPublicKey(path: string): Promise<PublicKey> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (e) {
+    throw new KeystoreError(path, e instanceof Error ? e.message : String(e), e);
+  }
+  if (isKeystore(parsed)) {
+    return new PublicKey(parsed.publicKey);
+  }
+  return (await loadKeypair(path)).publicKey;
+}
@@ -0,0 +1,179 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { AuthError } from './errors';
+import { RequestVerifierOptions, createRequestVerifier } from './auth';
+import type { AgentIdentity } from './index';
+
+// Structural types so the SDK does not depend on Express or Fastify
+interface ExpressRequest extends IncomingMessage {
+  originalUrl?: string;
+  body?: unknown;
+  rawBody?: Buffer | string;
+  said?: AgentIdentity;
+}
+
+interface ExpressResponse extends ServerResponse {
+  status(code: number): { json(body: unknown): unknown };
+}
+
+interface FastifyRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body?: unknown;
+  rawBody?: Buffer | string;
+  raw: IncomingMessage;
+  said?: AgentIdentity;
+}
+
+interface FastifyReply {
+  code(status: number): { send(body: unknown): unknown };
+}
+
+const PARSED_BODY_HINT =
+  'Request body was parsed before SAID auth could hash it; keep the raw bytes on req.rawBody ' +
+  '(Express: express.json({ verify: (req, _res, buf) => { req.rawBody = buf } }), Fastify: fastify-raw-body)';
+
+function hasBody(req: IncomingMessage): boolean {
+  return req.headers['transfer-encoding'] !== undefined || Number(req.headers['content-length'] ?? 0) > 0;
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * The exact request body bytes: a kept raw body, an unparsed Buffer/string
+ * body, or the stream itself when nothing has read it yet
+ */
+async function rawBodyOf(
+  req: IncomingMessage,
+  raw: { rawBody?: Buffer | string; body?: unknown }
+): Promise<Buffer | string> {
+  if (raw.rawBody !== undefined) return raw.rawBody;
+  if (Buffer.isBuffer(raw.body) || typeof raw.body === 'string') return raw.body;
+  if (!hasBody(req)) return '';
+  if (req.readableEnded || (req as { _body?: boolean })._body) throw new Error(PARSED_BODY_HINT);
+
+  const body = await readBody(req);
+  raw.rawBody = body;
+  return body;
+}
+
+/**
+ * Parse a body the middleware read off the stream the way Express's body
+ * parsers would, and mark it parsed so parsers mounted later skip it
+ *
+ * JSON and urlencoded bodies become objects, text/* a string, anything else
+ * a Buffer. Throws a 400 error for JSON that does not parse.
+ */
+function keepParsedBody(req: ExpressRequest, body: Buffer): void {
+  const type = String(req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  const text = body.toString('utf8');
+  if (type === 'application/json' || type.endsWith('+json')) {
+    try {
+      req.body = JSON.parse(text);
+    } catch (e) {
+      throw Object.assign(new Error('Request body is not valid JSON'), { status: 400, cause: e });
+    }
+  } else if (type === 'application/x-www-form-urlencoded') {
+    req.body = Object.fromEntries(new URLSearchParams(text));
+  } else {
+    req.body = type.startsWith('text/') ? text : body;
+  }
+  // body-parser skips requests flagged as already parsed
+  (req as { _body?: boolean })._body = true;
+}
+
+function failure(e: AuthError) {
+  return { error: e.reason, message: e.message };
+}
+
+/**
+ * Signed-request auth for a plain Node `http` server
+ *
+ * Resolves to the caller's identity, or answers 401/403 itself and resolves
+ * to null. The request body is read and kept on `req.rawBody`.
+ *
+ * @example
+ * const auth = httpAuth({ lookup: (w) => said.lookup(w), requireVerified: true });
+ * http.createServer(async (req, res) => {
+ *   const agent = await auth(req, res);
+ *   if (!agent) return;
+ *   res.end(`hello ${agent.owner}`);
+ * });
+ */
+export function httpAuth(options: RequestVerifierOptions) {
+  const verify = createRequestVerifier(options);
+
+  return async (
+    req: IncomingMessage & { rawBody?: Buffer | string; said?: AgentIdentity },
+    res: ServerResponse
+  ): Promise<AgentIdentity | null> => {
+    try {
+      const body = await rawBodyOf(req, req);
+      req.said = await verify({ method: req.method ?? 'GET', path: req.url ?? '/', body, headers: req.headers });
+      return req.said;
+    } catch (e) {
+      if (!(e instanceof AuthError)) throw e;
+      res.writeHead(e.status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(failure(e)));
+      return null;
+    }
+  };
+}
+
+/**
+ * Signed-request auth middleware for Express; sets `req.said`
+ *
+ * Mounted after a body parser, the parser must keep the raw bytes on
+ * `req.rawBody`. Mounted first, it reads the body itself, keeps it on
+ * `req.rawBody` and sets `req.body` as express.json(), express.urlencoded(),
+ * express.text() or express.raw() would, so parsers mounted later pass it on.
+ */
+export function expressAuth(options: RequestVerifierOptions) {
+  const verify = createRequestVerifier(options);
+
+  return (req: ExpressRequest, res: ExpressResponse, next: (err?: unknown) => void): void => {
+    (async () => {
+      const unread = req.rawBody === undefined && req.body === undefined;
+      const body = await rawBodyOf(req, req);
+      req.said = await verify({
+        method: req.method ?? 'GET',
+        path: req.originalUrl ?? req.url ?? '/',
+        body,
+        headers: req.headers
+      });
+      if (unread && Buffer.isBuffer(body)) keepParsedBody(req, body);
+    })().then(
+      () => next(),
+      (e) => (e instanceof AuthError ? res.status(e.status).json(failure(e)) : next(e))
+    );
+  };
+}
+
+/**
+ * Signed-request auth as a Fastify preHandler hook; sets `request.said`
+ *
+ * Fastify parses bodies before hooks run, so requests with a body need the
+ * raw bytes on `request.rawBody` (e.g. fastify-raw-body) or a string/Buffer
+ * content type parser.
+ */
+export function fastifyAuth(options: RequestVerifierOptions) {
+  const verify = createRequestVerifier(options);
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<unknown> => {
+    try {
+      const body = await rawBodyOf(request.raw, request);
+      request.said = await verify({ method: request.method, path: request.url, body, headers: request.headers });
+      return undefined;
+    } catch (e) {
+      if (!(e instanceof AuthError)) throw e;
+      return reply.code(e.status).send(failure(e));
+    }
+  };
+}
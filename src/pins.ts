@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentCard } from './card';
+import { SignedCard, canonicalJson, isSignedCard } from './signed-card';
+
+/**
+ * A card as it looked when it was pinned
+ */
+export interface CardPin {
+  wallet: string;
+  metadataUri: string;
+  sha256: string;                 // Hex SHA-256 of the fetched card bytes
+  pinnedAt: string;               // ISO timestamp
+  document: AgentCard | SignedCard; // Parsed card, kept for diffs
+}
+
+/**
+ * Pinned card hash compared with the card served now
+ */
+export interface CardChange {
+  pinnedHash: string;
+  currentHash: string;
+  pinnedAt: string;
+}
+
+/**
+ * One top-level card field that differs from the pin
+ */
+export interface CardFieldChange {
+  field: string;
+  before?: unknown; // Absent when the field was added
+  after?: unknown;  // Absent when the field was removed
+}
+
+/**
+ * Key/value backend for card pins, keyed by owner wallet
+ *
+ * Implement this to keep pins in a database; `get` must resolve to
+ * undefined when the wallet is not pinned.
+ */
+export interface PinStore {
+  get(wallet: string): Promise<CardPin | undefined> | CardPin | undefined;
+  set(wallet: string, pin: CardPin): Promise<void> | void;
+  delete(wallet: string): Promise<void> | void;
+}
+
+/**
+ * In-memory pin store (lost when the process exits)
+ */
+export class MemoryPinStore implements PinStore {
+  private pins = new Map<string, CardPin>();
+
+  get(wallet: string): CardPin | undefined {
+    return this.pins.get(wallet);
+  }
+
+  set(wallet: string, pin: CardPin): void {
+    this.pins.set(wallet, pin);
+  }
+
+  delete(wallet: string): void {
+    this.pins.delete(wallet);
+  }
+}
+
+/**
+ * Pin store backed by a single JSON file, re-read on every access so that
+ * several processes (e.g. CLI runs) share it
+ */
+export class FilePinStore implements PinStore {
+  constructor(readonly filePath: string) {}
+
+  private read(): Record<string, CardPin> {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+  }
+
+  private write(pins: Record<string, CardPin>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(pins, null, 2) + '\n');
+  }
+
+  get(wallet: string): CardPin | undefined {
+    return this.read()[wallet];
+  }
+
+  set(wallet: string, pin: CardPin): void {
+    this.write({ ...this.read(), [wallet]: pin });
+  }
+
+  delete(wallet: string): void {
+    const pins = this.read();
+    delete pins[wallet];
+    this.write(pins);
+  }
+}
+
+/**
+ * List the top-level card fields that were added, removed or changed
+ *
+ * Signed envelopes are compared by the card inside them, so re-signing an
+ * unchanged card yields no field changes.
+ */
+export function diffCards(
+  before: AgentCard | SignedCard,
+  after: AgentCard | SignedCard
+): CardFieldChange[] {
+  const from = (isSignedCard(before) ? before.card : before) as unknown as Record<string, unknown>;
+  const to = (isSignedCard(after) ? after.card : after) as unknown as Record<string, unknown>;
+
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+  const changes: CardFieldChange[] = [];
+  for (const field of fields) {
+    if (canonicalJson(from[field]) === canonicalJson(to[field])) continue;
+
+    const change: CardFieldChange = { field };
+    if (field in from) change.before = from[field];
+    if (field in to) change.after = to[field];
+    changes.push(change);
+  }
+  return changes;
+}
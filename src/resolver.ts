@@ -0,0 +1,450 @@
+import { promises as fs } from 'fs';
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { fileURLToPath } from 'url';
+import { CardFetchFailedError } from './errors';
+
+/**
+ * Raw content behind a metadata URI
+ */
+export interface ResolvedUri {
+  url: string;          // Location actually read (after rewrites and gateway mapping)
+  body: Uint8Array;
+  contentType?: string;
+}
+
+/**
+ * Turns a metadata URI into bytes; implement this to support other schemes
+ * or transports. Failures should throw CardFetchFailedError.
+ */
+export interface UriResolver {
+  canResolve(uri: string): boolean;
+  resolve(uri: string): Promise<ResolvedUri>;
+}
+
+/**
+ * Regex rewrite applied to URIs before they are resolved
+ */
+export interface UriRewrite {
+  pattern: RegExp;
+  replacement: string;
+}
+
+/**
+ * Limits applied to every HTTP(S) fetch, including IPFS/Arweave gateways
+ */
+export interface FetchLimits {
+  timeoutMs?: number;             // Whole fetch, headers and body (default 10s)
+  maxBytes?: number;              // Largest body accepted (default 256 KiB)
+  maxRedirects?: number;          // Default 3
+  allowPrivateNetworks?: boolean; // Allow loopback/private/link-local hosts (default false)
+  lookup?: (hostname: string) => Promise<string[]>; // DNS used by the private-network guard
+}
+
+/**
+ * Settings for the built-in resolver chain
+ */
+export interface UriResolverOptions extends FetchLimits {
+  ipfsGateways?: string[];   // Tried in order; each ends with '/ipfs/'
+  arweaveGateway?: string;
+  rewrites?: UriRewrite[];   // Defaults to [SAID_WWW_REWRITE]; [] disables
+  allowFileUris?: boolean;   // Enable file:// (local tests only; off by default)
+  fetch?: typeof fetch;      // Custom fetch implementation
+}
+
+/**
+ * saidprotocol.com only serves cards from the www host
+ */
+export const SAID_WWW_REWRITE: UriRewrite = {
+  pattern: /^(https?:\/\/)saidprotocol\.com(?=[/:?#]|$)/i,
+  replacement: '$1www.saidprotocol.com'
+};
+
+export const DEFAULT_RESOLVER_OPTIONS = {
+  ipfsGateways: ['https://ipfs.io/ipfs/', 'https://dweb.link/ipfs/'],
+  arweaveGateway: 'https://arweave.net/',
+  rewrites: [SAID_WWW_REWRITE],
+  allowFileUris: false
+};
+
+export const DEFAULT_FETCH_LIMITS = {
+  timeoutMs: 10_000,
+  maxBytes: 256 * 1024,
+  maxRedirects: 3,
+  allowPrivateNetworks: false
+};
+
+/**
+ * The 16 bytes of an IPv6 address (with or without an embedded dotted IPv4
+ * tail or a zone id), or null when it is not one
+ */
+function ipv6Bytes(address: string): number[] | null {
+  const ip = address.replace(/%.*$/, '');
+  if (isIP(ip) !== 6) return null;
+
+  const [head, tail] = ip.split('::');
+  const groups = (part: string | undefined): number[] => {
+    if (!part) return [];
+    return part.split(':').flatMap((group) => {
+      if (group.includes('.')) {
+        const [a, b, c, d] = group.split('.').map(Number);
+        return [(a << 8) | b, (c << 8) | d];
+      }
+      return [parseInt(group, 16)];
+    });
+  };
+  const left = groups(head);
+  const right = groups(tail);
+  const words = tail === undefined ? left : [...left, ...new Array(8 - left.length - right.length).fill(0), ...right];
+  return words.flatMap((word) => [word >> 8, word & 0xff]);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT, multicast
+ * or otherwise not a public unicast address
+ *
+ * IPv6 addresses that embed an IPv4 address (IPv4-mapped ::ffff:0:0/96,
+ * IPv4-compatible ::/96 and NAT64 64:ff9b::/96) are judged by that address,
+ * whatever notation they are written in.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b < 128)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32)
+      || (a === 192 && b === 168)
+      || (a === 192 && b === 0 && Number(address.split('.')[2]) === 0)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+
+  const bytes = ipv6Bytes(address);
+  if (!bytes) return true; // Not an IP address at all; never treat it as public
+
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every((byte) => byte === 0);
+  const embedsIpv4 =
+    (zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) ||                // ::ffff:0:0/96
+    zeros(0, 12) ||                                                              // ::/96 (also :: and ::1)
+    (bytes[0] === 0 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && zeros(4, 12)); // 64:ff9b::/96
+  if (embedsIpv4) return isPrivateAddress(bytes.slice(12).join('.'));
+
+  return (bytes[0] & 0xfe) === 0xfc                   // fc00::/7 unique local
+    || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) // fe80::/10 link-local
+    || bytes[0] === 0xff;                              // multicast
+}
+
+async function defaultLookup(hostname: string): Promise<string[]> {
+  return (await dns.lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+}
+
+/**
+ * http:// and https:// via fetch, with a timeout, body size cap, manual
+ * redirect limit and a guard against private-network hosts (SSRF)
+ *
+ * The guard checks DNS answers before each request; it does not pin the
+ * resolved address, so treat it as defence in depth, not a sandbox.
+ */
+export class HttpUriResolver implements UriResolver {
+  private fetchImpl: typeof fetch;
+  private limits: Required<Omit<FetchLimits, 'lookup'>> & Pick<FetchLimits, 'lookup'>;
+
+  constructor(fetchImpl?: typeof fetch, limits: FetchLimits = {}) {
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+    this.limits = {
+      timeoutMs: limits.timeoutMs ?? DEFAULT_FETCH_LIMITS.timeoutMs,
+      maxBytes: limits.maxBytes ?? DEFAULT_FETCH_LIMITS.maxBytes,
+      maxRedirects: limits.maxRedirects ?? DEFAULT_FETCH_LIMITS.maxRedirects,
+      allowPrivateNetworks: limits.allowPrivateNetworks ?? DEFAULT_FETCH_LIMITS.allowPrivateNetworks,
+      lookup: limits.lookup
+    };
+  }
+
+  canResolve(uri: string): boolean {
+    return /^https?:\/\//i.test(uri);
+  }
+
+  async resolve(uri: string): Promise<ResolvedUri> {
+    const { timeoutMs, maxRedirects } = this.limits;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const failure = (reason: string, status?: number, cause?: unknown) =>
+      new CardFetchFailedError(uri, controller.signal.aborted ? `timed out after ${timeoutMs}ms` : reason, status, cause);
+
+    try {
+      let url = uri;
+      for (let redirects = 0; ; redirects++) {
+        await this.assertPublicHost(uri, url);
+
+        let response: Response;
+        try {
+          response = await this.fetchImpl(url, { redirect: 'manual', signal: controller.signal });
+        } catch (e) {
+          throw failure(e instanceof Error ? e.message : String(e), undefined, e);
+        }
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          if (redirects >= maxRedirects) {
+            throw failure(`more than ${maxRedirects} redirects`, response.status);
+          }
+          url = new URL(location, url).toString();
+          if (!this.canResolve(url)) {
+            throw failure(`redirect to unsupported URL ${url}`, response.status);
+          }
+          continue;
+        }
+        if (!response.ok) {
+          throw failure(`HTTP ${response.status}`, response.status);
+        }
+
+        let body: Uint8Array;
+        try {
+          body = await this.readBody(uri, response);
+        } catch (e) {
+          if (e instanceof CardFetchFailedError) throw e;
+          throw failure(e instanceof Error ? e.message : String(e), undefined, e);
+        }
+        return { url, body, contentType: response.headers.get('content-type') ?? undefined };
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Reject hosts that are, or resolve to, non-public addresses
+   */
+  private async assertPublicHost(uri: string, url: string): Promise<void> {
+    if (this.limits.allowPrivateNetworks) return;
+
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    if (isIP(hostname)) {
+      addresses = [hostname];
+    } else {
+      try {
+        addresses = await (this.limits.lookup ?? defaultLookup)(hostname);
+      } catch (e) {
+        throw new CardFetchFailedError(uri, `cannot resolve host ${hostname}`, undefined, e);
+      }
+    }
+
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked || addresses.length === 0) {
+      throw new CardFetchFailedError(uri, `blocked private network address ${blocked ?? hostname} (${hostname})`);
+    }
+  }
+
+  /**
+   * Read the body, giving up as soon as it exceeds maxBytes
+   */
+  private async readBody(uri: string, response: Response): Promise<Uint8Array> {
+    const { maxBytes } = this.limits;
+    const tooLarge = () => new CardFetchFailedError(uri, `response exceeds ${maxBytes} bytes`, response.status);
+
+    if (Number(response.headers.get('content-length') ?? 0) > maxBytes) {
+      throw tooLarge();
+    }
+    if (!response.body) {
+      const body = new Uint8Array(await response.arrayBuffer());
+      if (body.length > maxBytes) throw tooLarge();
+      return body;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => {});
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+
+    const body = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return body;
+  }
+}
+
+/**
+ * ipfs://<cid>[/path] through HTTP gateways, falling through on failure
+ */
+export class IpfsUriResolver implements UriResolver {
+  constructor(
+    private gateways: string[] = DEFAULT_RESOLVER_OPTIONS.ipfsGateways,
+    private http: UriResolver = new HttpUriResolver()
+  ) {}
+
+  canResolve(uri: string): boolean {
+    return /^ipfs:\/\//i.test(uri);
+  }
+
+  async resolve(uri: string): Promise<ResolvedUri> {
+    // Accept both ipfs://<cid> and the legacy ipfs://ipfs/<cid>
+    const path = uri.replace(/^ipfs:\/\/(ipfs\/)?/i, '');
+    let lastError: unknown;
+    for (const gateway of this.gateways) {
+      try {
+        return await this.http.resolve(gateway + path);
+      } catch (e) {
+        lastError = e;
+      }
+    }
+    throw new CardFetchFailedError(
+      uri,
+      `all IPFS gateways failed${lastError instanceof Error ? ` (last: ${lastError.message})` : ''}`,
+      undefined,
+      lastError
+    );
+  }
+}
+
+/**
+ * ar://<transaction id> through an Arweave gateway
+ */
+export class ArweaveUriResolver implements UriResolver {
+  constructor(
+    private gateway: string = DEFAULT_RESOLVER_OPTIONS.arweaveGateway,
+    private http: UriResolver = new HttpUriResolver()
+  ) {}
+
+  canResolve(uri: string): boolean {
+    return /^ar:\/\//i.test(uri);
+  }
+
+  resolve(uri: string): Promise<ResolvedUri> {
+    return this.http.resolve(this.gateway + uri.replace(/^ar:\/\//i, ''));
+  }
+}
+
+/**
+ * Inline data:application/json[;base64],... cards
+ */
+export class DataUriResolver implements UriResolver {
+  canResolve(uri: string): boolean {
+    return /^data:application\/json[;,]/i.test(uri);
+  }
+
+  constructor(private maxBytes: number = DEFAULT_FETCH_LIMITS.maxBytes) {}
+
+  async resolve(uri: string): Promise<ResolvedUri> {
+    const comma = uri.indexOf(',');
+    if (comma === -1) {
+      throw new CardFetchFailedError(uri, 'malformed data URI');
+    }
+    const params = uri.slice(5, comma).split(';');
+    const payload = uri.slice(comma + 1);
+
+    let body: Buffer;
+    try {
+      body = params.includes('base64')
+        ? Buffer.from(payload, 'base64')
+        : Buffer.from(decodeURIComponent(payload), 'utf8');
+    } catch (e) {
+      throw new CardFetchFailedError(uri, 'malformed data URI', undefined, e);
+    }
+    if (body.length > this.maxBytes) {
+      throw new CardFetchFailedError(uri, `data exceeds ${this.maxBytes} bytes`);
+    }
+    return { url: uri, body: new Uint8Array(body), contentType: params[0] };
+  }
+}
+
+/**
+ * file:// paths on the local machine, for tests and fixtures
+ */
+export class FileUriResolver implements UriResolver {
+  canResolve(uri: string): boolean {
+    return /^file:\/\//i.test(uri);
+  }
+
+  async resolve(uri: string): Promise<ResolvedUri> {
+    try {
+      return { url: uri, body: new Uint8Array(await fs.readFile(fileURLToPath(uri))) };
+    } catch (e) {
+      throw new CardFetchFailedError(uri, e instanceof Error ? e.message : String(e), undefined, e);
+    }
+  }
+}
+
+/**
+ * Applies rewrites, then hands the URI to the first resolver that accepts it
+ */
+export class UriResolverChain implements UriResolver {
+  constructor(private resolvers: UriResolver[], private rewrites: UriRewrite[] = []) {}
+
+  /**
+   * URI after rewrites, as it will be resolved
+   */
+  rewrite(uri: string): string {
+    return this.rewrites.reduce((current, rule) => current.replace(rule.pattern, rule.replacement), uri);
+  }
+
+  canResolve(uri: string): boolean {
+    const rewritten = this.rewrite(uri);
+    return this.resolvers.some((resolver) => resolver.canResolve(rewritten));
+  }
+
+  async resolve(uri: string): Promise<ResolvedUri> {
+    const rewritten = this.rewrite(uri);
+    const resolver = this.resolvers.find((r) => r.canResolve(rewritten));
+    if (!resolver) {
+      const scheme = rewritten.match(/^([a-z][a-z0-9+.-]*):/i)?.[1] ?? rewritten;
+      throw new CardFetchFailedError(uri, `no resolver for scheme "${scheme}"`);
+    }
+    return resolver.resolve(rewritten);
+  }
+}
+
+/**
+ * Run async tasks with at most `concurrency` in flight
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    // A finishing task hands its slot straight to the next queued one
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * The built-in chain: https, ipfs://, ar://, data: and (opt-in) file://
+ */
+export function createUriResolver(options: UriResolverOptions = {}): UriResolverChain {
+  const http = new HttpUriResolver(options.fetch, options);
+
+  const resolvers: UriResolver[] = [
+    http,
+    new IpfsUriResolver(options.ipfsGateways ?? DEFAULT_RESOLVER_OPTIONS.ipfsGateways, http),
+    new ArweaveUriResolver(options.arweaveGateway ?? DEFAULT_RESOLVER_OPTIONS.arweaveGateway, http),
+    new DataUriResolver(options.maxBytes)
+  ];
+  if (options.allowFileUris ?? DEFAULT_RESOLVER_OPTIONS.allowFileUris) {
+    resolvers.push(new FileUriResolver());
+  }
+
+  return new UriResolverChain(resolvers, options.rewrites ?? DEFAULT_RESOLVER_OPTIONS.rewrites);
+}
@@ -0,0 +1,199 @@
+import {
+  Commitment,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionConfirmationStatus,
+  TransactionInstruction
+} from '@solana/web3.js';
+import { SignerLike, signTransaction } from './signer';
+import { RpcUnavailableError, TransactionFailedError } from './errors';
+
+/**
+ * Options for the transaction sending pipeline
+ */
+export interface SendOptions {
+  priorityFee?: number | 'auto';  // Micro-lamports per compute unit; 'auto' = estimate from recent fees
+  priorityFeePercentile?: number; // Percentile of recent fees used by 'auto' (default 75)
+  maxPriorityFee?: number;        // Cap for 'auto' estimates (micro-lamports per CU)
+  computeUnitLimit?: number;      // Adds a SetComputeUnitLimit instruction
+  maxAttempts?: number;           // Fresh-blockhash resubmissions before giving up (default 3)
+  rebroadcastInterval?: number;   // ms between rebroadcasts while waiting (default 2000)
+  commitment?: Commitment;        // Confirmation level to wait for (default 'confirmed')
+}
+
+/**
+ * Outcome of a sent transaction
+ */
+export interface SendResult {
+  signature: string;
+  attempts: number;                       // Blockhashes tried (1 = first try landed)
+  status: TransactionConfirmationStatus;  // Confirmation level reached
+  priorityFee: number;                    // Micro-lamports per CU on the landed attempt
+  computeUnitLimit?: number;
+}
+
+export const DEFAULT_SEND_OPTIONS = {
+  priorityFeePercentile: 75,
+  maxAttempts: 3,
+  rebroadcastInterval: 2000,
+  commitment: 'confirmed' as Commitment
+};
+
+const CONFIRMATION_LEVELS: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+/**
+ * Resolve the priority fee (micro-lamports per CU) for a set of instructions
+ */
+export async function resolvePriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  options: SendOptions = {}
+): Promise<number> {
+  if (options.priorityFee === undefined) return 0;
+  if (options.priorityFee !== 'auto') return options.priorityFee;
+
+  const writable = new Map<string, PublicKey>();
+  for (const ix of instructions) {
+    for (const key of ix.keys) {
+      if (key.isWritable) writable.set(key.pubkey.toString(), key.pubkey);
+    }
+  }
+
+  let recent;
+  try {
+    recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: Array.from(writable.values())
+    });
+  } catch (e) {
+    throw new RpcUnavailableError('Failed to fetch recent prioritization fees', e);
+  }
+  if (recent.length === 0) return 0;
+
+  const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  const percentile = options.priorityFeePercentile ?? DEFAULT_SEND_OPTIONS.priorityFeePercentile;
+  const index = Math.min(fees.length - 1, Math.floor((percentile / 100) * fees.length));
+  const fee = fees[index];
+
+  return options.maxPriorityFee !== undefined ? Math.min(fee, options.maxPriorityFee) : fee;
+}
+
+/**
+ * Compute budget instructions to prepend for the given settings
+ */
+export function computeBudgetInstructions(priorityFee: number, computeUnitLimit?: number): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  if (computeUnitLimit !== undefined) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+  }
+  if (priorityFee > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+  }
+  return instructions;
+}
+
+/**
+ * Whether instructions fit in one legacy transaction, leaving room for
+ * both compute budget instructions
+ */
+export function fitsInTransaction(instructions: TransactionInstruction[], feePayer: PublicKey): boolean {
+  const message = new Transaction({ feePayer, blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 0 })
+    .add(...computeBudgetInstructions(1, 1), ...instructions)
+    .compileMessage();
+  const signatures = message.header.numRequiredSignatures;
+  return 1 + signatures * 64 + message.serialize().length <= PACKET_DATA_SIZE;
+}
+
+/**
+ * Sign, send and confirm instructions with priority fees, rebroadcasting
+ * until the blockhash expires and resubmitting with a fresh blockhash.
+ *
+ * Preflight and on-chain failures are not retried; only expiry is.
+ */
+export async function sendInstructions(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  signers: SignerLike[],
+  options: SendOptions = {}
+): Promise<SendResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_SEND_OPTIONS.maxAttempts;
+  const rebroadcastInterval = options.rebroadcastInterval ?? DEFAULT_SEND_OPTIONS.rebroadcastInterval;
+  const commitment = options.commitment ?? DEFAULT_SEND_OPTIONS.commitment;
+  const target = CONFIRMATION_LEVELS.indexOf(commitment as TransactionConfirmationStatus);
+
+  const priorityFee = await resolvePriorityFee(connection, instructions, options);
+  const budget = computeBudgetInstructions(priorityFee, options.computeUnitLimit);
+
+  let lastSignature: string | undefined;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let latest;
+    try {
+      latest = await connection.getLatestBlockhash(commitment);
+    } catch (e) {
+      throw new RpcUnavailableError('Failed to fetch recent blockhash', e);
+    }
+
+    const tx = new Transaction({
+      feePayer,
+      blockhash: latest.blockhash,
+      lastValidBlockHeight: latest.lastValidBlockHeight
+    }).add(...budget, ...instructions);
+    const raw = (await signTransaction(tx, signers)).serialize();
+
+    let signature: string;
+    try {
+      signature = await connection.sendRawTransaction(raw, { maxRetries: 0, preflightCommitment: commitment });
+    } catch (e: any) {
+      // An expired blockhash during preflight is worth another attempt
+      if (/blockhash not found/i.test(e?.message ?? '') && attempt < maxAttempts) continue;
+      throw new TransactionFailedError(e?.message ?? String(e), undefined, e?.logs, e);
+    }
+    lastSignature = signature;
+
+    // Poll and rebroadcast until confirmed or the blockhash expires
+    while (true) {
+      let status;
+      let blockHeight: number;
+      try {
+        // Read the height first so a null status really means "expired unlanded"
+        blockHeight = await connection.getBlockHeight(commitment);
+        status = (await connection.getSignatureStatuses([signature])).value[0];
+      } catch (e) {
+        throw new RpcUnavailableError(`Failed to confirm transaction ${signature}`, e);
+      }
+
+      if (status?.err) {
+        throw new TransactionFailedError(JSON.stringify(status.err), signature);
+      }
+      if (status?.confirmationStatus && CONFIRMATION_LEVELS.indexOf(status.confirmationStatus) >= target) {
+        return {
+          signature,
+          attempts: attempt,
+          status: status.confirmationStatus,
+          priorityFee,
+          computeUnitLimit: options.computeUnitLimit
+        };
+      }
+      if (blockHeight > latest.lastValidBlockHeight) break;
+
+      await sleep(rebroadcastInterval);
+      try {
+        await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+      } catch (e) {
+        // Rebroadcast failures are expected under congestion; keep polling
+      }
+    }
+  }
+
+  throw new TransactionFailedError(
+    `blockhash expired before confirmation after ${maxAttempts} attempt(s)`,
+    lastSignature
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,303 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AuthError } from './errors';
+import { MessageSignerLike, fromBase64url, signMessage, toBase64url, verifyMessage } from './signer';
+import { NonceStore } from './auth';
+import { DELEGATION_SCOPES, RevocationList, SignedDelegation, assertNotRevoked, verifyDelegation } from './delegation';
+import type { AgentIdentity } from './index';
+
+/**
+ * A sign-in challenge issued by a server
+ */
+export interface Challenge {
+  domain: string;      // Server asking for the sign-in
+  wallet?: string;     // Expected signer; filled in by signChallenge when absent
+  nonce: string;
+  issuedAt: number;    // Unix seconds
+  expiresAt: number;   // Unix seconds
+  statement?: string;  // Human-readable purpose
+  message: string;     // Exact text that gets signed (see challengeMessage)
+}
+
+/**
+ * A challenge signed by the agent wallet
+ */
+export interface SignedChallenge {
+  challenge: Challenge;
+  wallet: string;
+  signature: string; // base58 ed25519 signature over challengeMessage(challenge)
+  delegation?: SignedDelegation; // Present when an operator key signed for `wallet`
+}
+
+/**
+ * Options for createChallenge
+ */
+export interface ChallengeOptions {
+  domain: string;
+  wallet?: string | PublicKey;
+  statement?: string;
+  ttlSeconds?: number; // Default 300; verifiers reject longer than their maxTtlSeconds
+  now?: () => number;  // Unix seconds
+}
+
+/**
+ * Options for verifyChallenge
+ */
+export interface VerifyChallengeOptions {
+  domain: string;                                           // Must match the challenge
+  lookup: (wallet: string) => Promise<AgentIdentity | null>; // e.g. (w) => said.getAgent(w) to include the card
+  nonces: NonceStore;          // Remembers used challenges; must be shared by every verifying process
+  nonce?: string;              // The nonce this server issued for the session (see verifyChallenge)
+  maxTtlSeconds?: number;      // Longest challenge lifetime accepted (default 300)
+  requireVerified?: boolean;
+  now?: () => number;
+  revocations?: (owner: string) => Promise<RevocationList | null>; // Needed to accept delegated sign-ins
+}
+
+/**
+ * Claims carried by a session token
+ */
+export interface SessionClaims {
+  sub: string;            // Owner wallet
+  agentPDA: string;
+  verified: boolean;
+  capabilities: string[]; // From the AgentCard, when the identity carried one
+  operator?: string;      // Delegated operator key that signed in, if any
+  iat: number;
+  exp: number;
+  aud?: string;
+  jti: string;
+}
+
+/**
+ * Options for issueToken
+ */
+export interface IssueTokenOptions {
+  secret: string | Uint8Array; // HMAC key (HS256)
+  ttlSeconds?: number;         // Default 900
+  audience?: string;
+  now?: () => number;
+}
+
+/**
+ * Options for verifyToken
+ */
+export interface VerifyTokenOptions {
+  secret: string | Uint8Array;
+  audience?: string; // Required `aud` when set
+  now?: () => number;
+}
+
+const DEFAULT_CHALLENGE_TTL_SECONDS = 300;
+const DEFAULT_TOKEN_TTL_SECONDS = 900;
+const MAX_CLOCK_SKEW_SECONDS = 60;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * The text a wallet signs for a challenge
+ */
+export function challengeMessage(challenge: Omit<Challenge, 'message'>): string {
+  const lines = [`${challenge.domain} wants you to sign in with your SAID agent wallet:`];
+  if (challenge.wallet) lines.push(challenge.wallet);
+  if (challenge.statement) lines.push('', challenge.statement);
+  lines.push(
+    '',
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${new Date(challenge.issuedAt * 1000).toISOString()}`,
+    `Expiration Time: ${new Date(challenge.expiresAt * 1000).toISOString()}`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Issue a sign-in challenge for an agent to sign
+ */
+export function createChallenge(options: ChallengeOptions): Challenge {
+  const issuedAt = (options.now ?? nowSeconds)();
+  const challenge: Omit<Challenge, 'message'> = {
+    domain: options.domain,
+    wallet: options.wallet?.toString(),
+    nonce: bs58.encode(randomBytes(16)),
+    issuedAt,
+    expiresAt: issuedAt + (options.ttlSeconds ?? DEFAULT_CHALLENGE_TTL_SECONDS),
+    statement: options.statement
+  };
+  return { ...challenge, message: challengeMessage(challenge) };
+}
+
+/**
+ * Sign a challenge with the agent wallet
+ *
+ * With a delegation, `signer` is the operator key and the sign-in is for the
+ * certificate's owner. Throws if the challenge names a different wallet.
+ */
+export async function signChallenge(
+  challenge: Challenge,
+  signer: MessageSignerLike,
+  options: { delegation?: SignedDelegation } = {}
+): Promise<SignedChallenge> {
+  const { delegation } = options;
+  if (delegation && delegation.cert.operator !== signer.publicKey.toBase58()) {
+    throw new Error(`Delegation is for operator ${delegation.cert.operator}, not ${signer.publicKey.toBase58()}`);
+  }
+
+  const wallet = delegation ? delegation.cert.owner : signer.publicKey.toBase58();
+  if (challenge.wallet && challenge.wallet !== wallet) {
+    throw new Error(`Challenge is for wallet ${challenge.wallet}, not ${wallet}`);
+  }
+
+  const bound = { ...challenge, wallet };
+  const message = challengeMessage(bound);
+  const signature = await signMessage(new TextEncoder().encode(message), signer);
+  const signed: SignedChallenge = { challenge: { ...bound, message }, wallet, signature: bs58.encode(signature) };
+  if (delegation) signed.delegation = delegation;
+  return signed;
+}
+
+/**
+ * Verify a signed challenge and resolve the signer's identity
+ *
+ * The signature is checked over the message rebuilt from the challenge
+ * fields, so a tampered `message` cannot smuggle in other terms. Delegated
+ * sign-ins need the 'sessions' scope and the `revocations` option, and
+ * resolve to the identity with `delegation` set.
+ *
+ * The client picks the challenge's timestamps, so challenges living longer
+ * than `maxTtlSeconds` are rejected. Servers should still pass the `nonce`
+ * they issued: without it any challenge the wallet signed for this domain is
+ * accepted. `nonces` must outlive restarts and be shared across processes
+ * (e.g. backed by Redis), or a used challenge can be replayed elsewhere.
+ */
+export async function verifyChallenge(
+  signed: SignedChallenge,
+  options: VerifyChallengeOptions
+): Promise<AgentIdentity> {
+  const { challenge, wallet } = signed;
+  const now = (options.now ?? nowSeconds)();
+
+  let owner: PublicKey;
+  let signature: Uint8Array;
+  try {
+    owner = new PublicKey(wallet);
+    signature = bs58.decode(signed.signature);
+  } catch (e) {
+    throw new AuthError('MALFORMED', 'Malformed wallet or signature in signed challenge', e);
+  }
+  if (challenge.domain !== options.domain) {
+    throw new AuthError('WRONG_AUDIENCE', `Challenge is for ${challenge.domain}, not ${options.domain}`);
+  }
+  if (challenge.wallet !== wallet) {
+    throw new AuthError('MALFORMED', 'Challenge wallet does not match the signer');
+  }
+  if (options.nonce !== undefined && challenge.nonce !== options.nonce) {
+    throw new AuthError('MALFORMED', 'Challenge nonce was not issued for this session');
+  }
+  if (typeof challenge.issuedAt !== 'number' || typeof challenge.expiresAt !== 'number') {
+    throw new AuthError('MALFORMED', 'Challenge timestamps must be Unix seconds');
+  }
+  const maxTtl = options.maxTtlSeconds ?? DEFAULT_CHALLENGE_TTL_SECONDS;
+  if (challenge.expiresAt - challenge.issuedAt > maxTtl) {
+    throw new AuthError('MALFORMED', `Challenge lifetime exceeds the ${maxTtl}s maximum`);
+  }
+  if (now >= challenge.expiresAt) {
+    throw new AuthError('EXPIRED', 'Challenge has expired');
+  }
+  if (challenge.issuedAt > now + MAX_CLOCK_SKEW_SECONDS) {
+    throw new AuthError('MALFORMED', 'Challenge is issued in the future');
+  }
+
+  const { delegation } = signed;
+  if (delegation) {
+    if (!options.revocations) {
+      throw new AuthError('BAD_DELEGATION', 'Delegated sign-ins are not accepted: no revocation source is configured');
+    }
+    verifyDelegation(delegation, { owner: wallet, scope: DELEGATION_SCOPES.sessions, now: () => now });
+  }
+
+  const signerKey = delegation ? new PublicKey(delegation.cert.operator) : owner;
+  const message = new TextEncoder().encode(challengeMessage(challenge));
+  if (!verifyMessage(message, signature, signerKey)) {
+    throw new AuthError('BAD_SIGNATURE', `Challenge signature does not match ${delegation ? 'operator' : 'wallet'} ${signerKey.toBase58()}`);
+  }
+
+  const ttlMs = Math.max(challenge.expiresAt - now, 1) * 1000;
+  if (!(await options.nonces.add(`challenge:${challenge.nonce}`, ttlMs))) {
+    throw new AuthError('NONCE_REUSED', 'Challenge was already used');
+  }
+
+  const agent = await options.lookup(wallet);
+  if (!agent || agent.owner !== wallet) {
+    throw new AuthError('NOT_REGISTERED', `Wallet ${wallet} has no SAID identity`);
+  }
+  if (options.requireVerified && !agent.isVerified) {
+    throw new AuthError('NOT_VERIFIED', `Agent ${wallet} is not verified`);
+  }
+  if (!delegation) return agent;
+
+  assertNotRevoked(delegation.cert, await options.revocations!(wallet));
+  return { ...agent, delegation: delegation.cert };
+}
+
+const TOKEN_HEADER = toBase64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function hmac(secret: string | Uint8Array, input: string): Buffer {
+  return createHmac('sha256', secret).update(input).digest();
+}
+
+/**
+ * Mint a short-lived session token (HS256 JWT) for a verified sign-in
+ *
+ * Tokens for delegated sign-ins name the operator and expire no later than
+ * the delegation.
+ *
+ * @param agent - Identity from verifyChallenge; include the card for capabilities
+ */
+export function issueToken(agent: AgentIdentity, options: IssueTokenOptions): string {
+  const iat = (options.now ?? nowSeconds)();
+  const exp = iat + (options.ttlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS);
+  const claims: SessionClaims = {
+    sub: agent.owner,
+    agentPDA: agent.pubkey,
+    verified: agent.isVerified,
+    capabilities: agent.card?.capabilities ?? [],
+    operator: agent.delegation?.operator,
+    iat,
+    exp: agent.delegation ? Math.min(exp, agent.delegation.expiresAt) : exp,
+    aud: options.audience,
+    jti: bs58.encode(randomBytes(12))
+  };
+
+  const unsigned = `${TOKEN_HEADER}.${toBase64url(JSON.stringify(claims))}`;
+  return `${unsigned}.${toBase64url(hmac(options.secret, unsigned))}`;
+}
+
+/**
+ * Check a session token's signature, expiry and audience and return its claims
+ */
+export function verifyToken(token: string, options: VerifyTokenOptions): SessionClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== TOKEN_HEADER) {
+    throw new AuthError('MALFORMED', 'Not a SAID session token');
+  }
+
+  const expected = hmac(options.secret, `${parts[0]}.${parts[1]}`);
+  const actual = fromBase64url(parts[2]);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthError('BAD_SIGNATURE', 'Session token signature is invalid');
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(fromBase64url(parts[1]).toString('utf8'));
+  } catch (e) {
+    throw new AuthError('MALFORMED', 'Session token claims are not valid JSON', e);
+  }
+  if ((options.now ?? nowSeconds)() >= claims.exp) {
+    throw new AuthError('EXPIRED', 'Session token has expired');
+  }
+  if (options.audience !== undefined && claims.aud !== options.audience) {
+    throw new AuthError('WRONG_AUDIENCE', `Session token is for ${claims.aud ?? 'no audience'}, not ${options.audience}`);
+  }
+  return claims;
+}
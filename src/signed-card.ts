@@ -0,0 +1,107 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { AgentCard } from './card';
+import { MessageSignerLike, signMessage, verifyMessage } from './signer';
+
+/**
+ * AgentCard wrapped with the owner wallet's signature (hosted JSON)
+ */
+export interface SignedCard {
+  type: 'said-signed-card';
+  version: 1;
+  card: AgentCard;
+  signature: {
+    alg: 'ed25519';
+    publicKey: string; // Signing wallet, base58
+    value: string;     // Signature over CARD_TAG + canonicalJson(card), base58
+    signedAt: string;  // ISO timestamp (informational, not signed)
+  };
+}
+
+// Prefixed to the signed card JSON, so a card signature never verifies as any
+// other owner-signed SAID object
+const CARD_TAG = 'SAID-CARD-V1\n';
+
+/**
+ * Serialize a JSON value deterministically: object keys sorted, no
+ * whitespace, undefined members dropped
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const members = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Cannot canonicalize non-finite number ${value}`);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Check whether parsed card JSON is a signed-card envelope
+ */
+export function isSignedCard(value: unknown): value is SignedCard {
+  const envelope = value as SignedCard | null;
+  return (
+    typeof envelope === 'object' &&
+    envelope !== null &&
+    envelope.type === 'said-signed-card' &&
+    typeof envelope.card === 'object' &&
+    envelope.card !== null &&
+    !Array.isArray(envelope.card) &&
+    typeof envelope.signature?.publicKey === 'string' &&
+    typeof envelope.signature?.value === 'string'
+  );
+}
+
+/**
+ * Sign an AgentCard with the owner wallet
+ *
+ * @param card - Card to sign; it is embedded unchanged
+ * @param signer - Owner keypair, or a wallet adapter with signMessage
+ */
+export async function signCard(card: AgentCard, signer: MessageSignerLike): Promise<SignedCard> {
+  const message = new TextEncoder().encode(CARD_TAG + canonicalJson(card));
+  const signature = await signMessage(message, signer);
+  return {
+    type: 'said-signed-card',
+    version: 1,
+    card,
+    signature: {
+      alg: 'ed25519',
+      publicKey: signer.publicKey.toBase58(),
+      value: bs58.encode(signature),
+      signedAt: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Check that a signed card was signed by the given owner wallet
+ *
+ * Returns false for a signature by any other key, an unsupported version or
+ * algorithm, or a card modified after signing.
+ */
+export function verifyCardSignature(envelope: SignedCard, owner: string | PublicKey): boolean {
+  const { signature } = envelope;
+  if (envelope.version !== 1 || signature.alg !== 'ed25519') return false;
+
+  let signatureBytes: Uint8Array;
+  let ownerKey: PublicKey;
+  try {
+    signatureBytes = bs58.decode(signature.value);
+    ownerKey = new PublicKey(owner);
+  } catch {
+    return false;
+  }
+  if (signature.publicKey !== ownerKey.toBase58()) return false;
+
+  const message = new TextEncoder().encode(CARD_TAG + canonicalJson(envelope.card));
+  return verifyMessage(message, signatureBytes, ownerKey);
+}
@@ -0,0 +1,114 @@
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+
+/**
+ * Anything that can sign a transaction without exposing its secret key:
+ * browser wallet adapters, hardware wallets, KMS-backed signers, etc.
+ */
+export interface Signer {
+  publicKey: PublicKey;
+  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+}
+
+/**
+ * A raw keypair or an external signer
+ */
+export type SignerLike = Keypair | Signer;
+
+/**
+ * Check whether a signer holds its secret key locally
+ */
+export function isKeypair(signer: SignerLike): signer is Keypair {
+  return 'secretKey' in signer;
+}
+
+/**
+ * Wrap a keypair in the Signer interface
+ */
+export function keypairSigner(keypair: Keypair): Signer {
+  return {
+    publicKey: keypair.publicKey,
+    async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+      if (tx instanceof VersionedTransaction) {
+        tx.sign([keypair]);
+      } else {
+        tx.partialSign(keypair);
+      }
+      return tx;
+    }
+  };
+}
+
+/**
+ * Apply every signer to a transaction. Local keypairs sign first so that
+ * external signers see a transaction that only lacks their own signature.
+ */
+export async function signTransaction<T extends Transaction | VersionedTransaction>(
+  tx: T,
+  signers: SignerLike[]
+): Promise<T> {
+  let signed = tx;
+  const external: Signer[] = [];
+
+  for (const signer of signers) {
+    if (isKeypair(signer)) {
+      signed = await keypairSigner(signer).signTransaction(signed);
+    } else {
+      external.push(signer);
+    }
+  }
+  for (const signer of external) {
+    signed = await signer.signTransaction(signed);
+  }
+
+  return signed;
+}
+
+/**
+ * Anything that can sign arbitrary bytes with an ed25519 wallet key, such as
+ * a wallet adapter exposing `signMessage`
+ */
+export interface MessageSigner {
+  publicKey: PublicKey;
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * A raw keypair or an external message signer
+ */
+export type MessageSignerLike = Keypair | MessageSigner;
+
+/**
+ * Sign bytes with a keypair or message signer (detached ed25519 signature)
+ */
+export async function signMessage(message: Uint8Array, signer: MessageSignerLike): Promise<Uint8Array> {
+  if ('secretKey' in signer) {
+    return ed25519.sign(message, signer.secretKey.slice(0, 32));
+  }
+  return signer.signMessage(message);
+}
+
+/**
+ * Check a detached ed25519 signature; malformed input verifies as false
+ */
+export function verifyMessage(message: Uint8Array, signature: Uint8Array, publicKey: PublicKey): boolean {
+  try {
+    return ed25519.verify(signature, message, publicKey.toBytes());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode bytes or text as unpadded base64url (JWS segments)
+ */
+export function toBase64url(data: string | Uint8Array): string {
+  return Buffer.from(data).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url
+ */
+export function fromBase64url(text: string): Buffer {
+  return Buffer.from(text.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
@@ -0,0 +1,773 @@
+import {
+  AccountChangeCallback,
+  AccountInfo,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  GetProgramAccountsFilter,
+  Keypair,
+  ProgramAccountChangeCallback,
+  PublicKey,
+  SendTransactionError,
+  SlotChangeCallback,
+  SystemInstruction,
+  SystemProgram,
+  TransactionError,
+  TransactionInstruction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import bs58 from 'bs58';
+import { SAID_PROGRAM_ID, VERIFICATION_FEE, deriveTreasuryPDA, TREASURY_PDA } from './clusters';
+import {
+  AgentAccountCodec,
+  AGENT_ACCOUNT_SIZE,
+  MAX_METADATA_URI_LENGTH,
+  REGISTER_AGENT_DISCRIMINATOR,
+  GET_VERIFIED_DISCRIMINATOR
+} from './codec';
+
+// Rent parameters of a default validator (3480 lamports/byte-year, 2-year exemption)
+const LAMPORTS_PER_BYTE_YEAR = 3480;
+const EXEMPTION_THRESHOLD_YEARS = 2;
+const ACCOUNT_STORAGE_OVERHEAD = 128;
+const BLOCKHASH_VALIDITY = 150;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+const SLOT_MS = 400;
+
+/**
+ * Account state held by the emulator
+ */
+export interface EmulatedAccount {
+  lamports: number;
+  owner: PublicKey;
+  data: Buffer;
+}
+
+/**
+ * Emulator settings
+ */
+export interface SAIDEmulatorOptions {
+  programId?: PublicKey | string;   // Defaults to SAID_PROGRAM_ID
+  treasury?: PublicKey | string;    // Defaults to the program's treasury PDA
+  verificationFee?: number;         // Defaults to VERIFICATION_FEE (0.01 SOL)
+  lamportsPerSignature?: number;    // Defaults to 5000
+  now?: () => number;               // Unix seconds used for registeredAt/verifiedAt
+  blockhashValidity?: number;       // Blocks a blockhash stays valid (default 150)
+  prioritizationFees?: number[];    // Returned by getRecentPrioritizationFees
+  slotMs?: number;                  // Interval between slot notifications (default 400)
+}
+
+/**
+ * Options for seeding an already-registered agent
+ */
+export interface SeedAgentOptions {
+  metadataUri?: string;
+  registeredAt?: number;
+  isVerified?: boolean;
+  verifiedAt?: number;
+}
+
+type Listener =
+  | { kind: 'account'; pubkey: string; callback: AccountChangeCallback }
+  | { kind: 'program'; programId: PublicKey; filters: GetProgramAccountsFilter[]; callback: ProgramAccountChangeCallback }
+  | { kind: 'slot'; callback: SlotChangeCallback };
+
+interface DecodedInstruction {
+  programId: PublicKey;
+  keys: { pubkey: PublicKey; isSigner: boolean; isWritable: boolean }[];
+  data: Buffer;
+}
+
+/**
+ * Thrown inside the emulator when a transaction fails; surfaced to callers
+ * as a SendTransactionError (send) or a simulation `err` (simulate), in the
+ * same TransactionError shape a real RPC node returns.
+ */
+class EmulatedProgramError extends Error {
+  constructor(message: string, readonly err: TransactionError) {
+    super(message);
+  }
+}
+
+// Error numbers used by the emulated program (Anchor framework + SAID)
+const SYSTEM_ACCOUNT_ALREADY_IN_USE = 0;
+const SYSTEM_RESULT_WITH_NEGATIVE_LAMPORTS = 1;
+const ANCHOR_ERRORS = {
+  InstructionFallbackNotFound: 101,
+  ConstraintHasOne: 2001,
+  ConstraintSigner: 2002,
+  ConstraintSeeds: 2006,
+  AccountNotInitialized: 3012,
+  AlreadyVerified: 6000,
+  UriTooLong: 6001
+};
+
+/**
+ * In-memory stand-in for a Solana RPC node running the SAID program
+ *
+ * Implements the subset of `Connection` the SDK uses, with the register and
+ * getVerified semantics of the on-chain program: PDA derivation, rent paid
+ * by the owner, and the verification fee transferred into the treasury.
+ * Inject it with `new SAID({ connection: emulator.connection })`.
+ *
+ * Failed transactions are rejected at send time (like a preflight failure)
+ * and leave state untouched.
+ */
+export class SAIDEmulator {
+  readonly programId: PublicKey;
+  readonly treasury: PublicKey;
+  readonly verificationFee: number;
+  readonly lamportsPerSignature: number;
+
+  private accounts = new Map<string, EmulatedAccount>();
+  private blockhashes = new Map<string, number>();
+  private processed = new Map<string, { slot: number; logs: string[] }>();
+  private blockHeight = 1;
+  private blockhashValidity: number;
+  private dropCount = 0;
+  private dropped = new Set<string>();
+  private now: () => number;
+  private listeners = new Map<number, Listener>();
+  private nextListenerId = 0;
+  private slot = 0;
+  private slotMs: number;
+  private slotTimer?: ReturnType<typeof setInterval>;
+  prioritizationFees: number[];
+
+  constructor(options: SAIDEmulatorOptions = {}) {
+    this.programId = options.programId ? new PublicKey(options.programId) : SAID_PROGRAM_ID;
+    this.treasury = options.treasury
+      ? new PublicKey(options.treasury)
+      : this.programId.equals(SAID_PROGRAM_ID) ? TREASURY_PDA : deriveTreasuryPDA(this.programId);
+    this.verificationFee = options.verificationFee ?? VERIFICATION_FEE;
+    this.lamportsPerSignature = options.lamportsPerSignature ?? 5000;
+    this.now = options.now || (() => Math.floor(Date.now() / 1000));
+    this.blockhashValidity = options.blockhashValidity ?? BLOCKHASH_VALIDITY;
+    this.prioritizationFees = options.prioritizationFees ?? [];
+    this.slotMs = options.slotMs ?? SLOT_MS;
+  }
+
+  /**
+   * The emulator typed as a Connection, for injection into SAID
+   */
+  get connection(): Connection {
+    return this as unknown as Connection;
+  }
+
+  // ============ TEST HELPERS ============
+
+  /**
+   * Credit lamports to an account (creating it if needed)
+   */
+  airdrop(pubkey: PublicKey | string, lamports: number): void {
+    const key = new PublicKey(pubkey).toString();
+    const account = this.accounts.get(key);
+    if (account) {
+      account.lamports += lamports;
+    } else {
+      this.accounts.set(key, { lamports, owner: SystemProgram.programId, data: Buffer.alloc(0) });
+    }
+    this.notify(key);
+  }
+
+  /**
+   * Read raw account state
+   */
+  getAccount(pubkey: PublicKey | string): EmulatedAccount | null {
+    return this.accounts.get(new PublicKey(pubkey).toString()) ?? null;
+  }
+
+  /**
+   * Overwrite raw account state (e.g. to plant malformed accounts)
+   */
+  setAccount(pubkey: PublicKey | string, account: EmulatedAccount): void {
+    const key = new PublicKey(pubkey).toString();
+    this.accounts.set(key, account);
+    this.notify(key);
+  }
+
+  /**
+   * Create an agent account directly, without sending a transaction
+   *
+   * @returns The agent PDA
+   */
+  seedAgent(owner: PublicKey | string, options: SeedAgentOptions = {}): PublicKey {
+    const ownerKey = new PublicKey(owner);
+    const pda = this.deriveAgentPDA(ownerKey);
+    const registeredAt = options.registeredAt ?? this.now();
+
+    this.setAccount(pda, {
+      lamports: this.rentExemptMinimum(AGENT_ACCOUNT_SIZE),
+      owner: this.programId,
+      data: AgentAccountCodec.encode({
+        owner: ownerKey.toString(),
+        metadataUri: options.metadataUri ?? `https://example.com/agents/${ownerKey.toString()}.json`,
+        registeredAt,
+        isVerified: options.isVerified ?? false,
+        verifiedAt: options.isVerified ? options.verifiedAt ?? registeredAt : 0
+      })
+    });
+    return pda;
+  }
+
+  /**
+   * Accept the next `count` distinct transactions but never land them,
+   * as a congested leader would. Rebroadcasts of them are dropped too.
+   */
+  dropTransactions(count: number): void {
+    this.dropCount += count;
+  }
+
+  /**
+   * Logs of a processed transaction
+   */
+  getLogs(signature: string): string[] | null {
+    return this.processed.get(signature)?.logs ?? null;
+  }
+
+  /**
+   * Forget every subscription without telling subscribers, as when a
+   * websocket connection silently drops
+   */
+  dropSubscriptions(): void {
+    this.listeners.clear();
+    this.updateSlotTimer();
+  }
+
+  /**
+   * Number of live subscriptions
+   */
+  get subscriptionCount(): number {
+    return this.listeners.size;
+  }
+
+  // ============ CONNECTION SUBSET ============
+
+  async getAccountInfo(pubkey: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    return this.toAccountInfo(this.getAccount(pubkey));
+  }
+
+  async getMultipleAccountsInfo(pubkeys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    return pubkeys.map((pubkey) => this.toAccountInfo(this.getAccount(pubkey)));
+  }
+
+  async getProgramAccounts(
+    programId: PublicKey,
+    config: { filters?: GetProgramAccountsFilter[]; dataSlice?: { offset: number; length: number } } = {}
+  ): Promise<{ pubkey: PublicKey; account: AccountInfo<Buffer> }[]> {
+    const results: { pubkey: PublicKey; account: AccountInfo<Buffer> }[] = [];
+
+    for (const [key, account] of this.accounts) {
+      if (!account.owner.equals(programId)) continue;
+      if (!(config.filters || []).every((filter) => matchesFilter(account.data, filter))) continue;
+
+      const info = this.toAccountInfo(account)!;
+      if (config.dataSlice) {
+        const { offset, length } = config.dataSlice;
+        info.data = Buffer.from(account.data.subarray(offset, offset + length));
+      }
+      results.push({ pubkey: new PublicKey(key), account: info });
+    }
+
+    return results;
+  }
+
+  onAccountChange(pubkey: PublicKey, callback: AccountChangeCallback, _commitment?: unknown): number {
+    return this.addListener({ kind: 'account', pubkey: pubkey.toString(), callback });
+  }
+
+  onProgramAccountChange(
+    programId: PublicKey,
+    callback: ProgramAccountChangeCallback,
+    _commitment?: unknown,
+    filters: GetProgramAccountsFilter[] = []
+  ): number {
+    return this.addListener({ kind: 'program', programId, filters, callback });
+  }
+
+  onSlotChange(callback: SlotChangeCallback): number {
+    return this.addListener({ kind: 'slot', callback });
+  }
+
+  async removeAccountChangeListener(id: number): Promise<void> {
+    this.removeListener(id);
+  }
+
+  async removeProgramAccountChangeListener(id: number): Promise<void> {
+    this.removeListener(id);
+  }
+
+  async removeSlotChangeListener(id: number): Promise<void> {
+    this.removeListener(id);
+  }
+
+  async getBalance(pubkey: PublicKey): Promise<number> {
+    return this.getAccount(pubkey)?.lamports ?? 0;
+  }
+
+  async getMinimumBalanceForRentExemption(dataLength: number): Promise<number> {
+    return this.rentExemptMinimum(dataLength);
+  }
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    const blockhash = Keypair.generate().publicKey.toString();
+    const lastValidBlockHeight = this.blockHeight + this.blockhashValidity;
+    this.blockhashes.set(blockhash, lastValidBlockHeight);
+    return { blockhash, lastValidBlockHeight };
+  }
+
+  /**
+   * Each poll advances one block, emulating time passing between polls
+   */
+  async getBlockHeight(): Promise<number> {
+    return this.blockHeight++;
+  }
+
+  async getRecentPrioritizationFees(): Promise<{ slot: number; prioritizationFee: number }[]> {
+    return this.prioritizationFees.map((prioritizationFee, i) => ({ slot: this.blockHeight - i, prioritizationFee }));
+  }
+
+  async requestAirdrop(pubkey: PublicKey, lamports: number): Promise<string> {
+    this.airdrop(pubkey, lamports);
+    const signature = bs58.encode(Keypair.generate().secretKey);
+    this.processed.set(signature, { slot: this.blockHeight, logs: [] });
+    return signature;
+  }
+
+  async sendRawTransaction(raw: Buffer | Uint8Array | number[], _options?: unknown): Promise<string> {
+    const tx = VersionedTransaction.deserialize(Uint8Array.from(raw as ArrayLike<number>));
+    const signature = bs58.encode(tx.signatures[0]);
+
+    if (this.dropped.has(signature)) return signature;
+    if (this.dropCount > 0) {
+      this.dropCount--;
+      this.dropped.add(signature);
+      return signature;
+    }
+
+    const logs: string[] = [];
+    try {
+      this.commit(this.processTransaction(tx, signature, logs, true));
+    } catch (e) {
+      if (!(e instanceof EmulatedProgramError)) throw e;
+      throw new SendTransactionError({
+        action: 'send',
+        signature,
+        transactionMessage: `Transaction simulation failed: ${e.message}`,
+        logs
+      });
+    }
+
+    this.processed.set(signature, { slot: this.blockHeight, logs });
+    this.blockHeight++;
+    return signature;
+  }
+
+  /**
+   * Run a transaction without committing it. Signatures are only checked
+   * when `sigVerify` is set; `replaceRecentBlockhash` skips the blockhash check.
+   */
+  async simulateTransaction(
+    tx: VersionedTransaction,
+    config: { sigVerify?: boolean; replaceRecentBlockhash?: boolean } = {}
+  ): Promise<{ context: { slot: number }; value: { err: TransactionError | null; logs: string[]; unitsConsumed?: number; accounts: null } }> {
+    const logs: string[] = [];
+    let err: TransactionError | null = null;
+    try {
+      this.processTransaction(tx, bs58.encode(tx.signatures[0]), logs, !!config.sigVerify, !!config.replaceRecentBlockhash);
+    } catch (e) {
+      if (!(e instanceof EmulatedProgramError)) throw e;
+      err = e.err;
+    }
+    return { context: { slot: this.blockHeight }, value: { err, logs, accounts: null } };
+  }
+
+  async getFeeForMessage(message: VersionedTransaction['message']): Promise<{ context: { slot: number }; value: number }> {
+    const instructions = this.decodeInstructions(message);
+    return {
+      context: { slot: this.blockHeight },
+      value: this.lamportsPerSignature * message.header.numRequiredSignatures + this.priorityFee(instructions)
+    };
+  }
+
+  async confirmTransaction(
+    strategy: string | { signature: string }
+  ): Promise<{ context: { slot: number }; value: { err: unknown } }> {
+    const signature = typeof strategy === 'string' ? strategy : strategy.signature;
+    const status = this.processed.get(signature);
+    if (!status) {
+      throw new Error(`Signature ${signature} not found`);
+    }
+    return { context: { slot: status.slot }, value: { err: null } };
+  }
+
+  async getSignatureStatuses(
+    signatures: string[]
+  ): Promise<{ context: { slot: number }; value: ({ slot: number; confirmations: null; err: null; confirmationStatus: 'confirmed' } | null)[] }> {
+    return {
+      context: { slot: this.blockHeight },
+      value: signatures.map((signature) => {
+        const status = this.processed.get(signature);
+        return status
+          ? { slot: status.slot, confirmations: null, err: null, confirmationStatus: 'confirmed' as const }
+          : null;
+      })
+    };
+  }
+
+  // ============ PROGRAM ============
+
+  private deriveAgentPDA(owner: PublicKey): PublicKey {
+    return PublicKey.findProgramAddressSync([Buffer.from('agent'), owner.toBuffer()], this.programId)[0];
+  }
+
+  private rentExemptMinimum(dataLength: number): number {
+    return (dataLength + ACCOUNT_STORAGE_OVERHEAD) * LAMPORTS_PER_BYTE_YEAR * EXEMPTION_THRESHOLD_YEARS;
+  }
+
+  private addListener(listener: Listener): number {
+    const id = this.nextListenerId++;
+    this.listeners.set(id, listener);
+    this.updateSlotTimer();
+    return id;
+  }
+
+  private removeListener(id: number): void {
+    this.listeners.delete(id);
+    this.updateSlotTimer();
+  }
+
+  /**
+   * Tick slots only while someone listens, so idle emulators don't hold the
+   * process open
+   */
+  private updateSlotTimer(): void {
+    const listening = Array.from(this.listeners.values()).some((l) => l.kind === 'slot');
+    if (listening && !this.slotTimer) {
+      this.slotTimer = setInterval(() => {
+        this.slot++;
+        for (const listener of Array.from(this.listeners.values())) {
+          if (listener.kind === 'slot') listener.callback({ slot: this.slot, parent: this.slot - 1, root: this.slot - 1 });
+        }
+      }, this.slotMs);
+    } else if (!listening && this.slotTimer) {
+      clearInterval(this.slotTimer);
+      this.slotTimer = undefined;
+    }
+  }
+
+  /**
+   * Replace account state with a processed transaction's draft and notify
+   * subscribers of every account it changed
+   */
+  private commit(draft: Map<string, EmulatedAccount>): void {
+    const previous = this.accounts;
+    this.accounts = draft;
+    for (const [key, account] of draft) {
+      const before = previous.get(key);
+      if (!before || before.lamports !== account.lamports || !before.data.equals(account.data)) {
+        this.notify(key);
+      }
+    }
+  }
+
+  private notify(key: string): void {
+    const account = this.accounts.get(key);
+    if (!account) return;
+    const context = { slot: this.blockHeight };
+
+    for (const listener of Array.from(this.listeners.values())) {
+      if (listener.kind === 'account' && listener.pubkey === key) {
+        listener.callback(this.toAccountInfo(account)!, context);
+      } else if (
+        listener.kind === 'program' &&
+        account.owner.equals(listener.programId) &&
+        listener.filters.every((filter) => matchesFilter(account.data, filter))
+      ) {
+        listener.callback({ accountId: new PublicKey(key), accountInfo: this.toAccountInfo(account)! }, context);
+      }
+    }
+  }
+
+  private toAccountInfo(account: EmulatedAccount | null): AccountInfo<Buffer> | null {
+    if (!account) return null;
+    return {
+      lamports: account.lamports,
+      owner: account.owner,
+      data: Buffer.from(account.data),
+      executable: false,
+      rentEpoch: 0
+    };
+  }
+
+  private decodeInstructions(message: VersionedTransaction['message']): DecodedInstruction[] {
+    const accountKeys = message.staticAccountKeys;
+    const numSigners = message.header.numRequiredSignatures;
+    return message.compiledInstructions.map((ix) => ({
+      programId: accountKeys[ix.programIdIndex],
+      keys: ix.accountKeyIndexes.map((index) => ({
+        pubkey: accountKeys[index],
+        isSigner: index < numSigners,
+        isWritable: message.isAccountWritable(index)
+      })),
+      data: Buffer.from(ix.data)
+    }));
+  }
+
+  /**
+   * Validate and execute a transaction against a draft copy of state
+   *
+   * @returns The resulting state; callers decide whether to commit it
+   */
+  private processTransaction(
+    tx: VersionedTransaction,
+    signature: string,
+    logs: string[],
+    verifySignatures: boolean,
+    skipBlockhashCheck = false
+  ): Map<string, EmulatedAccount> {
+    const message = tx.message;
+    if (message.addressTableLookups.length > 0) {
+      throw new EmulatedProgramError('Address lookup tables are not supported by the emulator', 'UnsupportedVersion');
+    }
+
+    if (!skipBlockhashCheck) {
+      const lastValid = this.blockhashes.get(message.recentBlockhash);
+      if (lastValid === undefined || lastValid < this.blockHeight) {
+        throw new EmulatedProgramError('Blockhash not found', 'BlockhashNotFound');
+      }
+    }
+    if (this.processed.has(signature)) {
+      throw new EmulatedProgramError('This transaction has already been processed', 'AlreadyProcessed');
+    }
+
+    const accountKeys = message.staticAccountKeys;
+    const numSigners = message.header.numRequiredSignatures;
+    if (verifySignatures) {
+      const messageBytes = message.serialize();
+      for (let i = 0; i < numSigners; i++) {
+        const sig = tx.signatures[i];
+        if (!sig || sig.every((b) => b === 0) || !ed25519.verify(sig, messageBytes, accountKeys[i].toBytes())) {
+          throw new EmulatedProgramError(`Missing or invalid signature for ${accountKeys[i].toString()}`, 'SignatureFailure');
+        }
+      }
+    }
+
+    const draft = new Map<string, EmulatedAccount>();
+    for (const [key, account] of this.accounts) {
+      draft.set(key, { ...account, data: Buffer.from(account.data) });
+    }
+
+    const instructions = this.decodeInstructions(message);
+
+    // Transaction fee: base fee per signature plus priority fee
+    const fee = this.lamportsPerSignature * numSigners + this.priorityFee(instructions);
+    const payer = draft.get(accountKeys[0].toString());
+    if (!payer || payer.lamports < fee) {
+      throw new EmulatedProgramError(`Fee payer ${accountKeys[0].toString()} cannot pay ${fee} lamports`, 'InsufficientFundsForFee');
+    }
+    payer.lamports -= fee;
+
+    instructions.forEach((ix, index) => {
+      logs.push(`Program ${ix.programId.toString()} invoke [1]`);
+      if (ix.programId.equals(ComputeBudgetProgram.programId)) {
+        // Already applied to the fee above
+      } else if (ix.programId.equals(SystemProgram.programId)) {
+        this.processSystemInstruction(draft, ix, index, logs);
+      } else if (ix.programId.equals(this.programId)) {
+        this.processSAIDInstruction(draft, ix, index, logs);
+      } else {
+        throw new EmulatedProgramError(`Unsupported program ${ix.programId.toString()}`, 'ProgramAccountNotFound');
+      }
+      logs.push(`Program ${ix.programId.toString()} success`);
+    });
+
+    // System accounts must stay empty or rent-exempt
+    const minimum = this.rentExemptMinimum(0);
+    for (const [key, account] of draft) {
+      if (account.owner.equals(SystemProgram.programId) && account.lamports > 0 && account.lamports < minimum) {
+        const accountIndex = accountKeys.findIndex((k) => k.toString() === key);
+        throw new EmulatedProgramError(
+          `Transaction results in an account (${key}) with insufficient funds for rent`,
+          { InsufficientFundsForRent: { account_index: accountIndex } }
+        );
+      }
+    }
+
+    return draft;
+  }
+
+  /**
+   * Priority fee in lamports: compute unit price x limit (micro-lamports)
+   */
+  private priorityFee(instructions: DecodedInstruction[]): number {
+    let price = 0;
+    let limit: number | undefined;
+    let programInstructions = 0;
+
+    for (const ix of instructions) {
+      if (!ix.programId.equals(ComputeBudgetProgram.programId)) {
+        programInstructions++;
+        continue;
+      }
+      const instruction = new TransactionInstruction(ix);
+      const type = ComputeBudgetInstruction.decodeInstructionType(instruction);
+      if (type === 'SetComputeUnitLimit') {
+        limit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units;
+      } else if (type === 'SetComputeUnitPrice') {
+        price = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction).microLamports);
+      }
+    }
+
+    const units = Math.min(limit ?? DEFAULT_UNITS_PER_INSTRUCTION * programInstructions, MAX_COMPUTE_UNITS);
+    return Math.ceil((price * units) / 1_000_000);
+  }
+
+  private processSystemInstruction(
+    draft: Map<string, EmulatedAccount>,
+    ix: DecodedInstruction,
+    index: number,
+    logs: string[]
+  ): void {
+    const instruction = new TransactionInstruction(ix);
+    if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') {
+      throw new EmulatedProgramError(
+        'Only SystemProgram.transfer is supported by the emulator',
+        { InstructionError: [index, 'InvalidInstructionData'] }
+      );
+    }
+
+    const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+    if (!ix.keys[0].isSigner) {
+      throw new EmulatedProgramError(
+        `Transfer source ${fromPubkey.toString()} did not sign`,
+        { InstructionError: [index, 'MissingRequiredSignature'] }
+      );
+    }
+    this.debit(draft, fromPubkey, Number(lamports), index, logs);
+    this.credit(draft, toPubkey, Number(lamports));
+  }
+
+  private processSAIDInstruction(
+    draft: Map<string, EmulatedAccount>,
+    ix: DecodedInstruction,
+    index: number,
+    logs: string[]
+  ): void {
+    const discriminator = ix.data.subarray(0, 8);
+    const fail = (name: keyof typeof ANCHOR_ERRORS, message: string): never => {
+      const code = ANCHOR_ERRORS[name];
+      logs.push(`Program log: AnchorError occurred. Error Code: ${name}. Error Number: ${code}. Error Message: ${message}.`);
+      throw new EmulatedProgramError(message, { InstructionError: [index, { Custom: code }] });
+    };
+
+    if (discriminator.equals(REGISTER_AGENT_DISCRIMINATOR)) {
+      logs.push('Program log: Instruction: RegisterAgent');
+      const [pdaMeta, ownerMeta] = ix.keys;
+      if (!ownerMeta?.isSigner) {
+        fail('ConstraintSigner', 'Owner must sign registerAgent');
+      }
+      if (!pdaMeta.pubkey.equals(this.deriveAgentPDA(ownerMeta.pubkey))) {
+        fail('ConstraintSeeds', 'A seeds constraint was violated');
+      }
+      if (draft.has(pdaMeta.pubkey.toString())) {
+        logs.push(`Allocate: account Address { address: ${pdaMeta.pubkey.toString()}, base: None } already in use`);
+        throw new EmulatedProgramError(
+          `Account ${pdaMeta.pubkey.toString()} already in use`,
+          { InstructionError: [index, { Custom: SYSTEM_ACCOUNT_ALREADY_IN_USE }] }
+        );
+      }
+
+      const uriLength = ix.data.readUInt32LE(8);
+      if (uriLength > MAX_METADATA_URI_LENGTH || 12 + uriLength > ix.data.length) {
+        fail('UriTooLong', 'Metadata URI too long');
+      }
+      const metadataUri = ix.data.subarray(12, 12 + uriLength).toString('utf8');
+
+      const rent = this.rentExemptMinimum(AGENT_ACCOUNT_SIZE);
+      this.debit(draft, ownerMeta.pubkey, rent, index, logs);
+      draft.set(pdaMeta.pubkey.toString(), {
+        lamports: rent,
+        owner: this.programId,
+        data: AgentAccountCodec.encode({
+          owner: ownerMeta.pubkey.toString(),
+          metadataUri,
+          registeredAt: this.now(),
+          isVerified: false,
+          verifiedAt: 0
+        })
+      });
+      return;
+    }
+
+    if (discriminator.equals(GET_VERIFIED_DISCRIMINATOR)) {
+      logs.push('Program log: Instruction: GetVerified');
+      const [pdaMeta, treasuryMeta, ownerMeta] = ix.keys;
+      if (!ownerMeta?.isSigner) {
+        fail('ConstraintSigner', 'Owner must sign getVerified');
+      }
+      if (!treasuryMeta.pubkey.equals(this.treasury)) {
+        fail('ConstraintSeeds', 'A seeds constraint was violated');
+      }
+
+      const pdaAccount = draft.get(pdaMeta.pubkey.toString());
+      if (!pdaAccount || !AgentAccountCodec.isAgentAccount(pdaAccount.data)) {
+        return fail('AccountNotInitialized', 'The program expected this account to be already initialized');
+      }
+      const agent = AgentAccountCodec.decode(pdaAccount.data, pdaMeta.pubkey.toString());
+      if (agent.owner !== ownerMeta.pubkey.toString()) {
+        fail('ConstraintHasOne', 'A has one constraint was violated');
+      }
+      if (agent.isVerified) {
+        fail('AlreadyVerified', 'Agent is already verified');
+      }
+
+      this.debit(draft, ownerMeta.pubkey, this.verificationFee, index, logs);
+      this.credit(draft, this.treasury, this.verificationFee);
+      pdaAccount.data = AgentAccountCodec.encode({ ...agent, isVerified: true, verifiedAt: this.now() });
+      return;
+    }
+
+    fail('InstructionFallbackNotFound', 'Fallback functions are not supported');
+  }
+
+  private debit(
+    draft: Map<string, EmulatedAccount>,
+    pubkey: PublicKey,
+    lamports: number,
+    index: number,
+    logs: string[]
+  ): void {
+    const account = draft.get(pubkey.toString());
+    if (!account || account.lamports < lamports) {
+      logs.push(`Transfer: insufficient lamports ${account?.lamports ?? 0}, need ${lamports}`);
+      throw new EmulatedProgramError(
+        `Insufficient funds: ${pubkey.toString()} has ${account?.lamports ?? 0}, needs ${lamports}`,
+        { InstructionError: [index, { Custom: SYSTEM_RESULT_WITH_NEGATIVE_LAMPORTS }] }
+      );
+    }
+    account.lamports -= lamports;
+  }
+
+  private credit(draft: Map<string, EmulatedAccount>, pubkey: PublicKey, lamports: number): void {
+    const account = draft.get(pubkey.toString());
+    if (account) {
+      account.lamports += lamports;
+    } else {
+      draft.set(pubkey.toString(), { lamports, owner: SystemProgram.programId, data: Buffer.alloc(0) });
+    }
+  }
+}
+
+function matchesFilter(data: Buffer, filter: GetProgramAccountsFilter): boolean {
+  if ('dataSize' in filter) {
+    return data.length === filter.dataSize;
+  }
+  const { bytes, offset } = filter.memcmp;
+  const expected = 'encoding' in filter.memcmp && filter.memcmp.encoding === 'base64'
+    ? Buffer.from(bytes, 'base64')
+    : Buffer.from(bs58.decode(bytes));
+  return data.subarray(offset, offset + expected.length).equals(expected);
+}
@@ -0,0 +1,144 @@
+import { Connection } from '@solana/web3.js';
+import type { AgentIdentity } from './index';
+
+/**
+ * Kind of change seen on an agent account
+ */
+export type AgentEventType = 'registered' | 'verified' | 'metadataUriChanged';
+
+/**
+ * A change to an agent account, emitted by watchAgent / watchRegistry
+ */
+export interface AgentEvent {
+  type: AgentEventType;
+  agent: AgentIdentity;      // State after the change
+  previous?: AgentIdentity;  // State before the change; absent for 'registered'
+  slot?: number;             // Notification slot; absent for changes found while resubscribing
+}
+
+export type AgentEventHandler = (event: AgentEvent) => void;
+
+/**
+ * Subscription settings
+ */
+export interface WatchOptions {
+  staleAfterMs?: number;                        // Resubscribe when no slot notification arrives for this long (0 = off, the default)
+  onResubscribe?: () => void;                   // Called after each resubscription
+  onError?: (error: unknown) => void;           // Failures while resubscribing; the watcher retries
+}
+
+/**
+ * A live subscription
+ */
+export interface AgentWatcher {
+  resubscribe(): Promise<void>; // Reopen the subscription and emit changes missed meanwhile
+  close(): Promise<void>;
+}
+
+/**
+ * Events implied by an account going from `previous` to `next`
+ *
+ * One update can emit several events, e.g. 'registered' and 'verified' when
+ * the account was first seen already verified.
+ */
+export function agentEvents(
+  previous: AgentIdentity | null | undefined,
+  next: AgentIdentity,
+  slot?: number
+): AgentEvent[] {
+  const events: AgentEvent[] = [];
+  const base = { agent: next, slot };
+
+  if (!previous) {
+    events.push({ type: 'registered', ...base });
+    if (next.isVerified) events.push({ type: 'verified', ...base });
+    return events;
+  }
+  if (!previous.isVerified && next.isVerified) {
+    events.push({ type: 'verified', ...base, previous });
+  }
+  if (previous.metadataUri !== next.metadataUri) {
+    events.push({ type: 'metadataUriChanged', ...base, previous });
+  }
+  return events;
+}
+
+/**
+ * Account subscription plus the state sync that runs before it opens
+ */
+export interface WatchSource {
+  sync(initial: boolean): Promise<void>; // Load current state; emit differences unless initial
+  subscribe(): number;
+  unsubscribe(id: number): Promise<void>;
+}
+
+/**
+ * Run a subscription with resync-on-resubscribe and optional liveness
+ * checking via slot notifications
+ */
+export async function startWatcher(
+  connection: Connection,
+  source: WatchSource,
+  options: WatchOptions = {}
+): Promise<AgentWatcher> {
+  const staleAfterMs = options.staleAfterMs ?? 0;
+  let subscriptionId: number | undefined;
+  let slotSubscriptionId: number | undefined;
+  let lastSlotAt = Date.now();
+  let closed = false;
+  let resubscribing: Promise<void> | undefined;
+
+  const open = () => {
+    subscriptionId = source.subscribe();
+    if (staleAfterMs > 0) {
+      lastSlotAt = Date.now();
+      slotSubscriptionId = connection.onSlotChange(() => {
+        lastSlotAt = Date.now();
+      });
+    }
+  };
+
+  const shut = async () => {
+    const ids = [subscriptionId, slotSubscriptionId];
+    subscriptionId = slotSubscriptionId = undefined;
+    // The socket may already be gone; there is nothing left to clean up then
+    if (ids[0] !== undefined) await source.unsubscribe(ids[0]).catch(() => undefined);
+    if (ids[1] !== undefined) await connection.removeSlotChangeListener(ids[1]).catch(() => undefined);
+  };
+
+  const resubscribe = () => {
+    resubscribing ??= (async () => {
+      try {
+        await shut();
+        await source.sync(false);
+        if (!closed) {
+          open();
+          options.onResubscribe?.();
+        }
+      } finally {
+        resubscribing = undefined;
+      }
+    })();
+    return resubscribing;
+  };
+
+  await source.sync(true);
+  open();
+
+  const timer = staleAfterMs > 0
+    ? setInterval(() => {
+      if (closed || resubscribing || Date.now() - lastSlotAt < staleAfterMs) return;
+      resubscribe().catch((e) => options.onError?.(e));
+    }, staleAfterMs)
+    : undefined;
+
+  return {
+    resubscribe,
+    async close() {
+      closed = true;
+      if (timer) clearInterval(timer);
+      await resubscribing?.catch(() => undefined);
+      await shut();
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { AgentAccountCodec, AGENT_ACCOUNT_SIZE, AccountMalformedError } from './dist/index.mjs';
+
+const OWNER = '42xhLbEm5ttwzxW6YMJ2UZStX7M8ytTz7s7bsyrdPxMD';
+const URI = 'https://www.saidprotocol.com/agents/kai.json';
+
+// Golden account bytes: verified agent, registered 2025-02-07, verified 2025-02-08
+const GOLDEN = Buffer.concat([
+  Buffer.from('0b951f1bba4cf148', 'hex'),                                          // discriminator
+  Buffer.from('2d139ddddd93ef0443eadfc1e63fec3be39ba76ed11ff2663225057924ab61a0', 'hex'), // owner
+  Buffer.from('2c000000', 'hex'),                                                  // uri length (44)
+  Buffer.from('68747470733a2f2f7777772e7361696470726f746f636f6c2e636f6d2f6167656e74732f6b61692e6a736f6e', 'hex'),
+  Buffer.from('004da56700000000', 'hex'),                                          // registered_at
+  Buffer.from('01', 'hex'),                                                        // is_verified
+  Buffer.from('809ea66700000000', 'hex'),                                          // verified_at
+  Buffer.from('0000', 'hex'),                                                      // reputation_score
+  Buffer.alloc(156)                                                                // reserved
+]);
+
+function test() {
+  console.log('Testing AgentAccountCodec...\n');
+
+  console.log('1. Golden fixture size:');
+  assert.equal(GOLDEN.length, AGENT_ACCOUNT_SIZE);
+  console.log('   ✅', GOLDEN.length, 'bytes');
+
+  console.log('\n2. Decode golden bytes:');
+  const decoded = AgentAccountCodec.decode(GOLDEN);
+  assert.equal(decoded.owner, OWNER);
+  assert.equal(decoded.metadataUri, URI);
+  assert.equal(decoded.registeredAt, 1738886400);
+  assert.equal(decoded.isVerified, true);
+  assert.equal(decoded.verifiedAt, 1738972800);
+  assert.equal(decoded.reputationScore, 0);
+  assert.equal(decoded.reserved.length, 156);
+  console.log('   ✅ Fields match');
+
+  console.log('\n3. Encode reproduces golden bytes:');
+  assert.deepEqual(AgentAccountCodec.encode(decoded), GOLDEN);
+  console.log('   ✅ Byte-identical');
+
+  console.log('\n4. Round-trip extra fields:');
+  const scored = AgentAccountCodec.encode({
+    ...decoded,
+    reputationScore: 742,
+    reserved: Buffer.from([1, 2, 3])
+  });
+  const redecoded = AgentAccountCodec.decode(scored);
+  assert.equal(redecoded.reputationScore, 742);
+  assert.deepEqual([...redecoded.reserved.subarray(0, 4)], [1, 2, 3, 0]);
+  console.log('   ✅ reputationScore and reserved bytes survive');
+
+  console.log('\n5. Discriminator check:');
+  assert.equal(AgentAccountCodec.isAgentAccount(GOLDEN), true);
+  const foreign = Buffer.from(GOLDEN);
+  foreign[0] ^= 0xff;
+  assert.equal(AgentAccountCodec.isAgentAccount(foreign), false);
+  assert.throws(() => AgentAccountCodec.decode(foreign, 'pda'), AccountMalformedError);
+  console.log('   ✅ Foreign account rejected');
+
+  console.log('\n6. Malformed accounts:');
+  assert.throws(() => AgentAccountCodec.decode(GOLDEN.subarray(0, 200)), AccountMalformedError);
+  const longUri = Buffer.from(GOLDEN);
+  longUri.writeUInt32LE(201, 40);
+  assert.throws(() => AgentAccountCodec.decode(longUri), AccountMalformedError);
+  assert.throws(() => AgentAccountCodec.encode({ ...decoded, metadataUri: 'x'.repeat(201) }));
+  console.log('   ✅ Truncated data and oversize URIs rejected');
+
+  console.log('\n✅ All codec tests passed!');
+}
+
+test();
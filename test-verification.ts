@@ -1,42 +1,52 @@
-// Quick test of the verification flow logic
+// Quick test of the verification flow logic (offline, against the emulator)
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { SAID } from './src/index';
+import { SAIDEmulator } from './src/testing';
 
 async function testVerification() {
+  const emulator = new SAIDEmulator();
   const said = new SAID({
-    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    connection: emulator.connection,
     commitment: 'confirmed'
   });
-  
-  // Test with Kai's wallet (known verified agent)
-  const kaiWallet = '42xhLbEm5ttwzxW6YMJ2UZStX7M8ytTz7s7bsyrdPxMD';
-  
+
+  // Fresh agent wallet registered on the emulator
+  const agentWallet = Keypair.generate();
+  emulator.airdrop(agentWallet.publicKey, LAMPORTS_PER_SOL / 10);
+  await said.registerAgent(agentWallet, 'https://www.saidprotocol.com/agents/test.json');
+
   console.log('Testing SAID SDK verification flow...\n');
-  
+
   try {
-    console.log('1. Testing isVerified()...');
-    const verified = await said.isVerified(kaiWallet);
-    console.log(`   ✅ Kai verified: ${verified}`);
-    
-    console.log('\n2. Testing getAgent()...');
-    const agent = await said.getAgent(kaiWallet);
-    if (agent) {
-      console.log(`   ✅ Agent found: ${agent.card?.name}`);
-      console.log(`   ✅ Verified: ${agent.isVerified}`);
+    console.log('1. Testing isVerified() before verification...');
+    const before = await said.isVerified(agentWallet.publicKey);
+    console.log(`   ✅ Verified: ${before}`);
+
+    console.log('\n2. Testing verifyAgent()...');
+    const { txSignature } = await said.verifyAgent(agentWallet);
+    console.log(`   ✅ Transaction: ${txSignature}`);
+
+    console.log('\n3. Testing lookup() after verification...');
+    const agent = await said.lookup(agentWallet.publicKey);
+    if (agent?.isVerified) {
+      console.log(`   ✅ Verified at: ${new Date(agent.verifiedAt * 1000).toISOString()}`);
       console.log(`   ✅ Metadata: ${agent.metadataUri}`);
     } else {
-      console.log('   ❌ Agent not found');
+      console.log('   ❌ Agent not verified');
+      process.exit(1);
     }
-    
-    console.log('\n3. Testing error handling with invalid wallet...');
+
+    console.log('\n4. Testing error handling with invalid wallet...');
     try {
       await said.lookup('invalid-wallet-address');
       console.log('   ❌ Should have thrown error');
+      process.exit(1);
     } catch (e: any) {
       console.log(`   ✅ Error caught: ${e.message}`);
     }
-    
+
     console.log('\n✅ All tests passed!');
-    
+
   } catch (error: any) {
     console.error('❌ Test failed:', error.message);
     process.exit(1);
@@ -1,52 +1,1004 @@
-import { SAID, isVerified, lookup, getStats, getAgent } from './dist/index.mjs';
+import assert from 'node:assert/strict';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createServer } from 'node:http';
+import express from 'express';
+import {
+  SAID,
+  isPrivateAddress,
+  TREASURY_PDA,
+  VERIFICATION_FEE,
+  TransactionFailedError,
+  KeystoreError,
+  InvalidCursorError,
+  CardFetchFailedError,
+  CardInvalidError,
+  validateCard,
+  AGENT_CARD_SCHEMA,
+  signCard,
+  signMessage,
+  isSignedCard,
+  verifyCardSignature,
+  canonicalJson,
+  FilePinStore,
+  MemoryPinStore,
+  diffCards,
+  signRequest,
+  createRequestVerifier,
+  httpAuth,
+  expressAuth,
+  fastifyAuth,
+  AuthError,
+  createChallenge,
+  signChallenge,
+  verifyChallenge,
+  MemoryNonceStore,
+  issueToken,
+  verifyToken,
+  issueDelegation,
+  verifyDelegation,
+  verifyRevocations,
+  signRevocations,
+  encodeDelegation,
+  toDid,
+  walletFromDid,
+  getResolver,
+  issueSocialCredential,
+  verifySocialCredential,
+  loadKeypair,
+  saveKeypair,
+  deriveAgentWallet,
+  deriveAgentWalletFromSeed,
+  mnemonicToAgentSeed,
+  deriveEd25519Seed,
+  generateMnemonic
+} from './dist/index.mjs';
+import { SAIDEmulator } from './dist/testing.mjs';
 
-const MY_WALLET = '42xhLbEm5ttwzxW6YMJ2UZStX7M8ytTz7s7bsyrdPxMD';
+const METADATA_URI = 'https://www.saidprotocol.com/agents/test.json';
 
 async function test() {
-  console.log('Testing SAID SDK...\n');
-
-  // Test 1: Lookup by wallet
-  console.log('1. Lookup by wallet:');
-  const agent = await lookup(MY_WALLET);
-  if (agent) {
-    console.log('   ✅ Found agent:', agent.pubkey);
-    console.log('   - Owner:', agent.owner);
-    console.log('   - Metadata:', agent.metadataUri);
-    console.log('   - Verified:', agent.isVerified);
-  } else {
-    console.log('   ❌ Agent not found');
-  }
+  console.log('Testing SAID SDK against the in-memory emulator...\n');
 
-  // Test 2: isVerified
-  console.log('\n2. Check isVerified:');
-  const verified = await isVerified(MY_WALLET);
-  console.log('   ✅ isVerified:', verified);
-
-  // Test 3: Get full agent with card
-  console.log('\n3. Get agent with card:');
-  const fullAgent = await getAgent(MY_WALLET);
-  if (fullAgent?.card) {
-    console.log('   ✅ Card loaded:');
-    console.log('   - Name:', fullAgent.card.name);
-    console.log('   - Description:', fullAgent.card.description);
-    console.log('   - Twitter:', fullAgent.card.twitter);
-  }
+  const emulator = new SAIDEmulator({ now: () => 1738886400 });
+  const said = new SAID({ connection: emulator.connection });
+
+  const funder = Keypair.generate();
+  emulator.airdrop(funder.publicKey, LAMPORTS_PER_SOL);
+
+  // Test 1: createAgent
+  console.log('1. createAgent (funder pays rent):');
+  const created = await said.createAgent({ name: 'Test Agent' }, funder, METADATA_URI);
+  const [expectedPDA] = said.deriveAgentPDA(created.wallet.publicKey);
+  assert.equal(created.agentPDA, expectedPDA.toString());
+  const pdaAccount = emulator.getAccount(created.agentPDA);
+  assert.equal(pdaAccount.lamports, await said['connection'].getMinimumBalanceForRentExemption(263));
+  console.log('   ✅ Agent PDA:', created.agentPDA);
+
+  // Test 2: lookup
+  console.log('\n2. Lookup by wallet:');
+  const agent = await said.lookup(created.walletAddress);
+  assert.equal(agent.owner, created.walletAddress);
+  assert.equal(agent.metadataUri, METADATA_URI);
+  assert.equal(agent.registeredAt, 1738886400);
+  assert.equal(agent.isVerified, false);
+  assert.equal(await said.lookup(Keypair.generate().publicKey), null);
+  console.log('   ✅ Found agent, unregistered wallet returns null');
+
+  // Test 3: registerAgent with an existing wallet
+  console.log('\n3. registerAgent (wallet pays its own rent):');
+  const wallet = Keypair.generate();
+  emulator.airdrop(wallet.publicKey, LAMPORTS_PER_SOL / 10);
+  const registered = await said.registerAgent(wallet, METADATA_URI);
+  assert.equal(await said.isRegistered(wallet.publicKey), true);
+  console.log('   ✅ Registered:', registered.agentPDA);
+
+  await assert.rejects(said.registerAgent(wallet, METADATA_URI), TransactionFailedError);
+  console.log('   ✅ Second registration rejected');
+
+  // Test 4: verifyAgent
+  console.log('\n4. verifyAgent (0.01 SOL into treasury):');
+  const treasuryBefore = emulator.getAccount(TREASURY_PDA)?.lamports ?? 0;
+  await said.verifyAgent(wallet);
+  assert.equal(await said.isVerified(wallet.publicKey), true);
+  assert.equal(emulator.getAccount(TREASURY_PDA).lamports - treasuryBefore, VERIFICATION_FEE);
+  console.log('   ✅ Verified, treasury received', VERIFICATION_FEE, 'lamports');
+
+  await assert.rejects(said.verifyAgent(wallet), TransactionFailedError);
+  console.log('   ✅ Second verification rejected');
+
+  // Test 5: createAndVerifyAgent
+  console.log('\n5. createAndVerifyAgent:');
+  const funderBefore = emulator.getAccount(funder.publicKey).lamports;
+  const both = await said.createAndVerifyAgent({ name: 'Verified Agent' }, funder, METADATA_URI);
+  assert.equal(both.verified, true);
+  assert.equal(both.atomic, true);
+  assert.equal(both.transactions.length, 1);
+  assert.deepEqual(both.steps, ['register', 'verify']);
+  assert.equal(await said.isVerified(both.walletAddress), true);
+  const agentRent = await said['connection'].getMinimumBalanceForRentExemption(263);
+  assert.equal(funderBefore - emulator.getAccount(funder.publicKey).lamports, agentRent + VERIFICATION_FEE + 10000);
+  console.log('   ✅ Created and verified in one transaction:', both.walletAddress);
+
+  const resumable = Keypair.generate();
+  emulator.airdrop(resumable.publicKey, LAMPORTS_PER_SOL / 10);
+  await said.registerAgent(resumable, METADATA_URI, funder);
+  const resumed = await said.createAndVerifyAgent({ name: 'Resumed' }, funder, METADATA_URI, undefined, {
+    wallet: resumable,
+    sweep: true
+  });
+  assert.deepEqual(resumed.steps, ['verify', 'sweep']);
+  assert.equal(resumed.swept, LAMPORTS_PER_SOL / 10 - agentRent - VERIFICATION_FEE);
+  assert.equal(emulator.getAccount(resumable.publicKey)?.lamports ?? 0, 0);
+  const again = await said.createAndVerifyAgent({ name: 'Resumed' }, funder, METADATA_URI, undefined, { wallet: resumable });
+  assert.deepEqual(again.steps, []);
+  assert.equal(again.verified, true);
+  console.log('   ✅ Resume skips finished steps and sweeps', resumed.swept, 'lamports back');
+
+  const split = await said.createAndVerifyAgent({ name: 'Split' }, funder, METADATA_URI, undefined, { atomic: false });
+  assert.equal(split.atomic, false);
+  assert.equal(split.transactions.length, 2);
+  assert.equal(split.verified, true);
+  console.log('   ✅ Non-atomic flow funds each step in its own transaction');
 
-  // Test 4: Stats
-  console.log('\n4. Get stats:');
-  const stats = await getStats();
+  // Test 6: listAgents + getStats
+  console.log('\n6. listAgents / getStats:');
+  emulator.seedAgent(Keypair.generate().publicKey, { isVerified: true });
+  const agents = await said.listAgents();
+  assert.equal(agents.length, 6);
+  const stats = await said.getStats();
+  assert.deepEqual(stats, { total: 6, verified: 5 });
   console.log('   ✅ Total agents:', stats.total);
   console.log('   ✅ Verified:', stats.verified);
 
-  // Test 5: Custom RPC
-  console.log('\n5. Custom RPC instance:');
-  const said = new SAID({ 
-    rpcUrl: 'https://practical-damp-dawn.solana-mainnet.quiknode.pro/84ecd414d631dccefcbe3da5cc2b918ab2b42036' 
+  // Test 7: batch lookup
+  console.log('\n7. lookupMany:');
+  const batch = await said.lookupMany([wallet.publicKey.toString(), 'not-a-wallet']);
+  assert.equal(batch.get(wallet.publicKey.toString()).isVerified, true);
+  assert.equal(batch.get('not-a-wallet').code, 'INVALID_ADDRESS');
+  console.log('   ✅ Per-entry results');
+
+  // Test 8: send pipeline
+  console.log('\n8. Priority fees and blockhash-expiry retries:');
+  const congested = new SAIDEmulator({ blockhashValidity: 2, prioritizationFees: [100, 5000, 20000, 1000] });
+  const client = new SAID({ connection: congested.connection, send: { rebroadcastInterval: 0 } });
+  const payer = Keypair.generate();
+  congested.airdrop(payer.publicKey, LAMPORTS_PER_SOL);
+  congested.dropTransactions(1);
+  const sent = await client.registerAgent(payer, METADATA_URI, undefined, {
+    priorityFee: 'auto',
+    computeUnitLimit: 50_000
+  });
+  assert.equal(sent.confirmation.attempts, 2);
+  assert.equal(sent.confirmation.status, 'confirmed');
+  assert.equal(sent.confirmation.priorityFee, 20000);
+  const rent = await congested.getMinimumBalanceForRentExemption(263);
+  assert.equal(await congested.getBalance(payer.publicKey), LAMPORTS_PER_SOL - rent - 5000 - 1000);
+  console.log('   ✅ Landed on attempt', sent.confirmation.attempts, 'with priority fee', sent.confirmation.priorityFee);
+
+  congested.dropTransactions(5);
+  await assert.rejects(
+    client.verifyAgent(payer, { maxAttempts: 2 }),
+    (e) => e instanceof TransactionFailedError && /blockhash expired/.test(e.message)
+  );
+  console.log('   ✅ Gives up after maxAttempts');
+
+  // Test 9: simulation and cost estimates
+  console.log('\n9. estimateRegister / estimateVerify:');
+  const fresh = Keypair.generate();
+  emulator.airdrop(fresh.publicKey, LAMPORTS_PER_SOL / 10);
+  const registerEstimate = await said.estimateRegister(fresh.publicKey, METADATA_URI);
+  assert.equal(registerEstimate.willSucceed, true);
+  assert.equal(registerEstimate.rent, await said['connection'].getMinimumBalanceForRentExemption(263));
+  assert.equal(registerEstimate.networkFee, 5000);
+  assert.equal(registerEstimate.total, registerEstimate.rent + 5000);
+  assert.equal(await said.isRegistered(fresh.publicKey), false);
+  console.log('   ✅ Register would cost', registerEstimate.total, 'lamports, nothing sent');
+
+  const duplicate = await said.estimateRegister(wallet.publicKey, METADATA_URI);
+  assert.equal(duplicate.willSucceed, false);
+  assert.equal(duplicate.error.name, 'AccountAlreadyInUse');
+  const alreadyVerified = await said.estimateVerify(wallet.publicKey);
+  assert.equal(alreadyVerified.error.name, 'AlreadyVerified');
+  assert.equal(alreadyVerified.verificationFee, VERIFICATION_FEE);
+  const unregistered = await said.estimateVerify(fresh.publicKey);
+  assert.equal(unregistered.error.name, 'AccountNotInitialized');
+  assert.equal(unregistered.error.instructionIndex, 0);
+  console.log('   ✅ Decoded failures:', duplicate.error.name, alreadyVerified.error.name, unregistered.error.name);
+
+  const createdBalance = await said['connection'].getBalance(created.wallet.publicKey);
+  assert.equal(createdBalance, 0);
+  assert.equal(await said['connection'].getBalance(both.wallet.publicKey), 0);
+  console.log('   ✅ createAgent / createAndVerifyAgent leave no stray lamports');
+
+  // Test 10: keystore
+  console.log('\n10. Encrypted keystore:');
+  const dir = mkdtempSync(join(tmpdir(), 'said-keystore-'));
+  const plainPath = join(dir, 'plain.json');
+  const encryptedPath = join(dir, 'encrypted.json');
+  await saveKeypair(plainPath, wallet);
+  await saveKeypair(encryptedPath, wallet, 'correct horse', { scryptN: 2 ** 12 });
+  assert.equal((await loadKeypair(plainPath)).publicKey.toString(), wallet.publicKey.toString());
+  const keystore = JSON.parse(readFileSync(encryptedPath, 'utf-8'));
+  assert.equal(keystore.publicKey, wallet.publicKey.toString());
+  assert.equal(readFileSync(encryptedPath, 'utf-8').includes(JSON.stringify(Array.from(wallet.secretKey))), false);
+  const decrypted = await loadKeypair(encryptedPath, async () => 'correct horse');
+  assert.deepEqual(decrypted.secretKey, wallet.secretKey);
+  await assert.rejects(loadKeypair(encryptedPath, 'wrong'), KeystoreError);
+  await assert.rejects(loadKeypair(encryptedPath), /no password/);
+  // Costs come from the file, so hostile ones are refused before scrypt runs
+  const hostileKeystore = (kdfparams) => {
+    const hostilePath = join(dir, 'hostile.json');
+    writeFileSync(hostilePath, JSON.stringify({ ...keystore, crypto: { ...keystore.crypto, kdfparams: { ...keystore.crypto.kdfparams, ...kdfparams } } }));
+    return loadKeypair(hostilePath, 'correct horse');
+  };
+  await assert.rejects(hostileKeystore({ n: 2 ** 30 }), (e) => e instanceof KeystoreError && /power of two up to 2\^20/.test(e.message));
+  await assert.rejects(hostileKeystore({ n: 3000 }), /power of two/);
+  await assert.rejects(hostileKeystore({ r: 1024 }), /r and p must be between 1 and 16/);
+  await assert.rejects(hostileKeystore({ n: 2 ** 20, r: 16 }), /more than 1 GiB/);
+  await assert.rejects(hostileKeystore({ p: '1' }), /must be integers/);
+  await assert.rejects(saveKeypair(join(dir, 'costly.json'), wallet, 'pw', { scryptN: 2 ** 24 }), /power of two up to/);
+  console.log('   ✅ Round-trips, wrong or missing password and hostile scrypt costs rejected');
+
+  // Test 11: HD fleet wallets
+  console.log('\n11. Mnemonic-derived agent wallets:');
+  const vectorSeed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+  assert.equal(
+    Buffer.from(deriveEd25519Seed(vectorSeed, "m/0'")).toString('hex'),
+    '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'
+  ); // SLIP-0010 test vector 1
+  assert.throws(() => deriveEd25519Seed(vectorSeed, 'm/0'), /hardened/);
+  const abandon = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+  assert.equal(deriveAgentWallet(abandon, 0).publicKey.toString(), 'HAgk14JpMQLgt6rVgv7cBQFJWFto5Dqxi472uT3DKpqk'); // Phantom account 0
+
+  const mnemonic = generateMnemonic();
+  assert.equal(
+    deriveAgentWallet(mnemonic, 3).publicKey.toString(),
+    deriveAgentWallet(mnemonic, 3).publicKey.toString()
+  );
+  assert.notEqual(
+    deriveAgentWallet(mnemonic, 0).publicKey.toString(),
+    deriveAgentWallet(mnemonic, 1).publicKey.toString()
+  );
+  assert.throws(() => deriveAgentWallet('not a valid mnemonic', 0), /Invalid mnemonic/);
+  const fleetSeed = mnemonicToAgentSeed(mnemonic);
+  assert.equal(deriveAgentWalletFromSeed(fleetSeed, 3).publicKey.toString(), deriveAgentWallet(mnemonic, 3).publicKey.toString());
+  assert.equal(
+    deriveAgentWalletFromSeed(mnemonicToAgentSeed(mnemonic, 'extra'), 3).publicKey.toString(),
+    deriveAgentWallet(mnemonic, 3, { passphrase: 'extra' }).publicKey.toString()
+  );
+  assert.throws(() => deriveAgentWalletFromSeed(fleetSeed, -1), /non-negative integer/);
+
+  for (const index of [0, 2, 25]) {
+    const derived = await said.createAgent(
+      { name: `Fleet ${index}`, wallet: deriveAgentWallet(mnemonic, index) },
+      funder,
+      METADATA_URI
+    );
+    assert.equal(derived.walletAddress, deriveAgentWallet(mnemonic, index).publicKey.toString());
+  }
+  const recovered = await said.recoverAgents(mnemonic, { gapLimit: 10 });
+  assert.deepEqual(recovered.map((r) => r.index), [0, 2]);
+  const wider = await said.recoverAgents(mnemonic, { gapLimit: 30 });
+  assert.deepEqual(wider.map((r) => r.index), [0, 2, 25]);
+  console.log('   ✅ Deterministic derivation, recovery scan honours the gap limit');
+
+  // Test 12: fleet manifest
+  console.log('\n12. applyFleet:');
+  const scout = Keypair.generate();
+  const trader = deriveAgentWallet(mnemonic, 40);
+  emulator.airdrop(scout.publicKey, LAMPORTS_PER_SOL / 10);
+  emulator.airdrop(trader.publicKey, LAMPORTS_PER_SOL / 10);
+  await saveKeypair(join(dir, 'scout.json'), scout, 'fleet pw', { scryptN: 2 ** 12 });
+  const manifest = {
+    agents: [
+      { name: 'Scout', keypair: 'scout.json', state: 'verified', metadataUri: METADATA_URI },
+      { name: 'Trader', keypair: { mnemonicIndex: 40 }, state: 'registered', metadataUri: METADATA_URI },
+      { name: 'Existing', keypair: wallet, state: 'registered' },
+      { name: 'NoCard', keypair: Keypair.generate() }
+    ]
+  };
+  const fleetOptions = { baseDir: dir, mnemonic, password: 'fleet pw' };
+
+  const preview = await said.applyFleet(manifest, { ...fleetOptions, plan: true, password: undefined });
+  assert.deepEqual(preview.agents.map((a) => a.actions), [['register', 'verify'], ['register'], [], ['register']]);
+  assert.deepEqual(preview.summary, { unchanged: 1, planned: 3, applied: 0, failed: 0 });
+  assert.equal(await said.isRegistered(scout.publicKey), false);
+  console.log('   ✅ Plan diffs against chain without keys or transactions');
+
+  const applied = await said.applyFleet(manifest, fleetOptions);
+  assert.deepEqual(applied.agents.map((a) => a.status), ['applied', 'applied', 'unchanged', 'failed']);
+  assert.match(applied.agents[3].error, /metadataUri is required/);
+  assert.equal(await said.isVerified(scout.publicKey), true);
+  assert.equal(await said.isRegistered(trader.publicKey), true);
+  assert.equal(applied.agents[0].txSignatures.length, 2);
+
+  const reapplied = await said.applyFleet(manifest, fleetOptions);
+  assert.deepEqual(reapplied.agents.map((a) => a.status), ['unchanged', 'unchanged', 'unchanged', 'failed']);
+  await assert.rejects(said.applyFleet({ agents: [{ name: 'x' }, { name: 'x', keypair: 'a.json' }] }), /Invalid fleet manifest/);
+  console.log('   ✅ Applies only missing steps, idempotent, per-agent failures reported');
+
+  // Test 13: metadata URI resolvers
+  console.log('\n13. UriResolver chain:');
+  const fetched = [];
+  const publicDns = async () => ['93.184.216.34'];
+  const stubFetch = async (url) => {
+    fetched.push(url);
+    if (url.startsWith('https://broken-gateway/')) return new Response('down', { status: 502 });
+    return new Response(JSON.stringify({ name: `card from ${url}` }), { headers: { 'content-type': 'application/json' } });
+  };
+  const cardPath = join(dir, 'card.json');
+  writeFileSync(cardPath, JSON.stringify({ name: 'Local Card' }));
+  const seeded = {};
+  for (const [key, uri] of Object.entries({
+    https: 'https://saidprotocol.com/agents/a.json',
+    ipfs: 'ipfs://bafycard/agent.json',
+    ar: 'ar://arweaveTx',
+    data: `data:application/json;base64,${Buffer.from('{"name":"Inline"}').toString('base64')}`,
+    file: pathToFileURL(cardPath).href,
+    ftp: 'ftp://example.com/card.json'
+  })) {
+    seeded[key] = Keypair.generate().publicKey;
+    emulator.seedAgent(seeded[key], { metadataUri: uri });
+  }
+
+  const resolving = new SAID({
+    connection: emulator.connection,
+    resolver: {
+      fetch: stubFetch,
+      lookup: publicDns,
+      ipfsGateways: ['https://broken-gateway/ipfs/', 'https://gw.example/ipfs/']
+    }
+  });
+  assert.equal((await resolving.getCard(seeded.https)).name, 'card from https://www.saidprotocol.com/agents/a.json');
+  assert.equal((await resolving.getCard(seeded.ipfs)).name, 'card from https://gw.example/ipfs/bafycard/agent.json');
+  assert.equal((await resolving.getCard(seeded.ar)).name, 'card from https://arweave.net/arweaveTx');
+  assert.equal((await resolving.getCard(seeded.data)).name, 'Inline');
+  await assert.rejects(resolving.getCard(seeded.file), /no resolver for scheme "file"/);
+  await assert.rejects(resolving.getCard(seeded.ftp), CardFetchFailedError);
+  assert.ok(fetched.includes('https://broken-gateway/ipfs/bafycard/agent.json'));
+
+  const local = new SAID({ connection: emulator.connection, resolver: { allowFileUris: true, rewrites: [] } });
+  assert.equal((await local.getCard(seeded.file)).name, 'Local Card');
+  const listed = await new SAID({ connection: emulator.connection, resolver: { fetch: stubFetch, lookup: publicDns } })
+    .listAgents({ includeCards: true });
+  assert.equal(listed.find((a) => a.owner === seeded.data.toString()).card.name, 'Inline');
+  console.log('   ✅ https (www rewrite), ipfs gateway fallback, ar, data and opt-in file URIs');
+
+  // Test 14: hardened card fetching
+  console.log('\n14. Card fetch limits:');
+  const cardFor = (uri) => {
+    const owner = Keypair.generate().publicKey;
+    emulator.seedAgent(owner, { metadataUri: uri });
+    return owner;
+  };
+  let inFlight = 0;
+  let peak = 0;
+  const hostileFetch = async (url, init) => {
+    const { pathname } = new URL(url);
+    if (pathname === '/slow') {
+      return new Promise((_, reject) => init.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    }
+    if (pathname === '/huge') {
+      const chunk = new Uint8Array(64 * 1024).fill(32);
+      return new Response(new ReadableStream({ pull: (c) => c.enqueue(chunk) }));
+    }
+    if (pathname.startsWith('/loop')) {
+      return new Response(null, { status: 302, headers: { location: `/loop${pathname.length}` } });
+    }
+    if (pathname === '/to-private') {
+      return new Response(null, { status: 301, headers: { location: 'http://169.254.169.254/latest/meta-data' } });
+    }
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise((r) => setTimeout(r, 5));
+    inFlight--;
+    return new Response(JSON.stringify({ name: pathname }));
+  };
+  const hardened = new SAID({
+    connection: emulator.connection,
+    cardConcurrency: 2,
+    resolver: { fetch: hostileFetch, lookup: publicDns, timeoutMs: 50, maxBytes: 100_000, maxRedirects: 2 }
   });
-  const agent2 = await said.lookup(MY_WALLET);
-  console.log('   ✅ QuickNode RPC works:', agent2?.isVerified);
+  const expectFailure = async (uri, pattern) => {
+    await assert.rejects(hardened.getCard(cardFor(uri)), (e) => e instanceof CardFetchFailedError && pattern.test(e.message));
+  };
+  await expectFailure('https://cards.example/slow', /timed out after 50ms/);
+  await expectFailure('https://cards.example/huge', /exceeds 100000 bytes/);
+  await expectFailure('https://cards.example/loop', /more than 2 redirects/);
+  await expectFailure('https://cards.example/to-private', /blocked private network address 169\.254\.169\.254/);
+  await expectFailure('http://127.0.0.1:8899/card.json', /blocked private network/);
+  await expectFailure('http://[::1]/card.json', /blocked private network/);
+  // WHATWG URLs rewrite embedded IPv4 into hex groups
+  await expectFailure('http://[::ffff:127.0.0.1]/card.json', /blocked private network address ::ffff:7f00:1/);
+  await expectFailure('http://[::ffff:169.254.169.254]/card.json', /blocked private network address ::ffff:a9fe:a9fe/);
+  await expectFailure('http://[::127.0.0.1]/card.json', /blocked private network address ::7f00:1/);
+  await expectFailure('http://[64:ff9b::a00:1]/card.json', /blocked private network/);
+  for (const address of ['::ffff:7f00:1', '::ffff:a9fe:a9fe', '::7f00:1', '::ffff:10.0.0.1', '64:ff9b::a9fe:a9fe', '::', 'fe80::1%eth0', 'fd00::1']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['::ffff:808:808', '::ffff:8.8.8.8', '64:ff9b::808:808', '2606:4700::1111', '8.8.8.8']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+  const rebinding = new SAID({ connection: emulator.connection, resolver: { fetch: hostileFetch, lookup: async () => ['10.0.0.5'] } });
+  await assert.rejects(rebinding.getCard(cardFor('https://internal.example/card.json')), /blocked private network address 10\.0\.0\.5/);
+  console.log('   ✅ Timeouts, size caps, redirect limits and private-network guard');
+
+  const owners = Array.from({ length: 6 }, (_, i) => cardFor(`https://cards.example/agent-${i}`));
+  const cards = await hardened.getAgentsMany(owners);
+  assert.equal(peak, 2);
+  assert.ok(Array.from(cards.values()).every((a) => a.card && !a.cardError));
+  const all = await hardened.listAgents({ includeCards: true });
+  assert.ok(all.filter((a) => a.cardError).length >= 6);
+  console.log('   ✅ At most 2 fetches in flight; failures reported per agent as cardError');
+
+  // Test 15: card validation
+  console.log('\n15. Card validation:');
+  const problemsOf = (card, expected) => validateCard(card, expected).problems.map((p) => `${p.path}:${p.code}`);
+  assert.deepEqual(problemsOf('nope'), [':NOT_OBJECT']);
+  assert.deepEqual(problemsOf({ description: 'no name', capabilities: ['chat', ''] }), ['name:REQUIRED', 'capabilities[1]:LENGTH']);
+  assert.deepEqual(
+    problemsOf({ name: 'Bad', website: 'ftp://x', mcpEndpoint: 'not a url', a2aEndpoint: 'https://a2a.example', twitter: 'has spaces!' }),
+    ['twitter:TWITTER_HANDLE', 'website:URL', 'mcpEndpoint:URL']
+  );
+  const valid = validateCard({ name: ' Agent ', twitter: 'https://x.com/said_agent' });
+  assert.equal(valid.valid, true);
+  assert.deepEqual(valid.card, { name: 'Agent', twitter: '@said_agent' });
+  assert.deepEqual(AGENT_CARD_SCHEMA.required, ['name']);
+
+  const dataCard = (card) => `data:application/json,${encodeURIComponent(JSON.stringify(card))}`;
+  const mismatched = cardFor(dataCard({ name: 'Impostor', wallet: funder.publicKey.toBase58() }));
+  const lenient = await said.getAgent(mismatched);
+  assert.equal(lenient.card.name, 'Impostor');
+  assert.deepEqual(lenient.cardProblems.map((p) => p.code), ['WALLET_MISMATCH']);
+  await assert.rejects(said.getCard(mismatched, { strict: true }), (e) => e instanceof CardInvalidError && e.problems[0].code === 'WALLET_MISMATCH');
+  const strict = new SAID({ connection: emulator.connection, strictCards: true });
+  const rejected = await strict.getAgent(mismatched);
+  assert.equal(rejected.card, undefined);
+  assert.ok(rejected.cardError instanceof CardInvalidError);
+  assert.equal((await strict.getCard(mismatched, { strict: false })).name, 'Impostor');
+  const owner = Keypair.generate().publicKey;
+  emulator.seedAgent(owner, { metadataUri: dataCard({ name: 'Honest', wallet: owner.toBase58(), twitter: 'honest' }) });
+  assert.equal((await strict.getCard(owner)).twitter, '@honest');
+  console.log('   ✅ Schema, URL, Twitter and on-chain checks; strict mode rejects invalid cards');
+
+  // Test 16: signed cards
+  console.log('\n16. Signed cards:');
+  assert.equal(canonicalJson({ b: [1, { d: true, c: null }], a: 'x', skip: undefined }), '{"a":"x","b":[1,{"c":null,"d":true}]}');
+  const signer = Keypair.generate();
+  const envelope = await signCard({ name: 'Signed', wallet: signer.publicKey.toBase58() }, signer);
+  assert.equal(envelope.signature.publicKey, signer.publicKey.toBase58());
+  assert.equal(verifyCardSignature(envelope, signer.publicKey), true);
+  assert.equal(verifyCardSignature(envelope, funder.publicKey), false);
+  const reordered = { ...envelope, card: { wallet: envelope.card.wallet, name: 'Signed' } };
+  assert.equal(verifyCardSignature(reordered, signer.publicKey), true);
+  assert.equal(verifyCardSignature({ ...envelope, card: { ...envelope.card, name: 'Forged' } }, signer.publicKey), false);
+  // Card signatures are domain-tagged: a signature over the bare JSON is not one
+  const untagged = bs58.encode(await signMessage(new TextEncoder().encode(canonicalJson(envelope.card)), signer));
+  assert.equal(verifyCardSignature({ ...envelope, signature: { ...envelope.signature, value: untagged } }, signer.publicKey), false);
+  assert.equal(isSignedCard(envelope), true);
+  assert.equal(isSignedCard({ ...envelope, card: null }), false);
+  assert.equal(isSignedCard({ ...envelope, card: [] }), false);
+
+  const hostedCards = new Map();
+  const host = (owner, json) => {
+    const uri = `https://cards.example/${owner.toBase58()}.json`;
+    hostedCards.set(uri, JSON.stringify(json));
+    emulator.seedAgent(owner, { metadataUri: uri });
+    return owner;
+  };
+  const hosting = new SAID({
+    connection: emulator.connection,
+    resolver: { fetch: async (url) => new Response(hostedCards.get(url)), lookup: publicDns }
+  });
+  host(signer.publicKey, envelope);
+  const signedAgent = await hosting.getAgent(signer.publicKey);
+  assert.equal(signedAgent.cardSignatureValid, true);
+  assert.equal(signedAgent.card.name, 'Signed');
+  assert.equal(signedAgent.cardProblems, undefined);
+  assert.equal((await hosting.getCard(signer.publicKey)).name, 'Signed');
+
+  const hijacked = host(Keypair.generate().publicKey, await signCard({ name: 'Hijacked' }, Keypair.generate()));
+  const hijackedAgent = await hosting.getAgent(hijacked);
+  assert.equal(hijackedAgent.cardSignatureValid, false);
+  assert.deepEqual(hijackedAgent.cardProblems.map((p) => p.code), ['SIGNATURE_INVALID']);
+  await assert.rejects(hosting.getCard(hijacked, { strict: true }), (e) => e.problems[0].code === 'SIGNATURE_INVALID');
+  assert.equal((await said.getAgent(owner)).cardSignatureValid, false);
+  console.log('   ✅ Canonical signing, owner check, tamper detection and cardSignatureValid');
+
+  // Test 17: card pinning
+  console.log('\n17. Card pinning:');
+  const pinStore = new FilePinStore(join(dir, 'pins', 'pins.json'));
+  const pinning = new SAID({
+    connection: emulator.connection,
+    pins: pinStore,
+    resolver: { fetch: async (url) => new Response(hostedCards.get(url)), lookup: publicDns }
+  });
+  const pinnedOwner = host(Keypair.generate().publicKey, { name: 'Pinned', website: 'https://a.example', skills: ['x'] });
+  assert.equal(await pinning.pinCard(Keypair.generate().publicKey), null);
+  const pin = await pinning.pinCard(pinnedOwner);
+  assert.match(pin.sha256, /^[0-9a-f]{64}$/);
+  assert.equal(pinStore.get(pinnedOwner.toBase58()).sha256, pin.sha256);
+  const untouched = await pinning.getAgent(pinnedOwner);
+  assert.equal(untouched.cardHash, pin.sha256);
+  assert.equal(untouched.cardChanged, undefined);
+  assert.equal((await pinning.diffCard(pinnedOwner)).changed, false);
+
+  host(pinnedOwner, { name: 'Pinned', website: 'https://evil.example', mcpEndpoint: 'https://evil.example/mcp' });
+  const drifted = await new SAID({
+    connection: emulator.connection,
+    pins: new FilePinStore(join(dir, 'pins', 'pins.json')),
+    resolver: { fetch: async (url) => new Response(hostedCards.get(url)), lookup: publicDns }
+  }).getAgent(pinnedOwner);
+  assert.equal(drifted.cardChanged.pinnedHash, pin.sha256);
+  assert.equal(drifted.cardChanged.currentHash, drifted.cardHash);
+  assert.notEqual(drifted.cardHash, pin.sha256);
+  const diff = await pinning.diffCard(pinnedOwner);
+  assert.equal(diff.changed, true);
+  assert.deepEqual(diff.changes, [
+    { field: 'mcpEndpoint', after: 'https://evil.example/mcp' },
+    { field: 'skills', before: ['x'] },
+    { field: 'website', before: 'https://a.example', after: 'https://evil.example' }
+  ]);
+  assert.deepEqual(diffCards(envelope, { name: 'Signed', wallet: signer.publicKey.toBase58() }), []);
+  await pinning.unpinCard(pinnedOwner);
+  assert.equal(await pinning.diffCard(pinnedOwner), null);
+  console.log('   ✅ Pins hash card bytes; getAgent flags cardChanged; diffCard lists changed fields');
+
+  // A warm card cache must not hide a card edited since it was cached
+  const cachedPinning = new SAID({
+    connection: emulator.connection,
+    cache: true,
+    pins: new MemoryPinStore(),
+    resolver: { fetch: async (url) => new Response(hostedCards.get(url)), lookup: publicDns }
+  });
+  const warmed = await cachedPinning.getAgent(pinnedOwner);
+  host(pinnedOwner, { name: 'Pinned', website: 'https://b.example' });
+  assert.equal((await cachedPinning.getAgent(pinnedOwner)).cardHash, warmed.cardHash);
+  const freshPin = await cachedPinning.pinCard(pinnedOwner);
+  assert.notEqual(freshPin.sha256, warmed.cardHash);
+  assert.equal(freshPin.document.website, 'https://b.example');
+  host(pinnedOwner, { name: 'Pinned', website: 'https://c.example' });
+  const freshDiff = await cachedPinning.diffCard(pinnedOwner);
+  assert.equal(freshDiff.changed, true);
+  assert.deepEqual(freshDiff.changes, [{ field: 'website', before: 'https://b.example', after: 'https://c.example' }]);
+  console.log('   ✅ pinCard and diffCard bypass the card cache');
+
+  // Test 18: filtered and paginated listing
+  console.log('\n18. listAgents filters and pages:');
+  const registry = new SAIDEmulator({ now: () => 1738886400 });
+  const scans = [];
+  const spied = new Proxy(registry.connection, {
+    get(target, prop) {
+      const value = target[prop];
+      if (prop !== 'getProgramAccounts') return typeof value === 'function' ? value.bind(target) : value;
+      return (programId, config) => {
+        scans.push(config);
+        return value.call(target, programId, config);
+      };
+    }
+  });
+  const cardFetches = [];
+  const paging = new SAID({
+    connection: spied,
+    resolver: { fetch: async (url) => (cardFetches.push(url), new Response('{"name":"Paged"}')), lookup: publicDns }
+  });
+  const registryOwners = [5, 1, 4, 2, 3].map((day) => {
+    const owner = Keypair.generate().publicKey;
+    registry.seedAgent(owner, {
+      registeredAt: 1738886400 + day * 86400,
+      isVerified: day % 2 === 1,
+      verifiedAt: day % 2 === 1 ? 1738886400 + day * 86400 + 60 : 0
+    });
+    return owner;
+  });
+
+  const first = await paging.listAgentsPage({ limit: 2, includeCards: true });
+  assert.deepEqual(scans.pop().dataSlice, { offset: 0, length: 0 });
+  assert.equal(first.total, 5);
+  assert.equal(first.agents.length, 2);
+  assert.equal(cardFetches.length, 2);
+  assert.ok(first.agents[0].pubkey < first.agents[1].pubkey);
+  const second = await paging.listAgentsPage({ limit: 2, cursor: first.nextCursor });
+  const third = await paging.listAgentsPage({ limit: 2, cursor: second.nextCursor });
+  assert.equal(third.nextCursor, undefined);
+  const walked = [...first.agents, ...second.agents, ...third.agents].map((a) => a.pubkey);
+  assert.deepEqual(walked, (await paging.listAgents()).map((a) => a.pubkey).sort());
+  assert.deepEqual((await paging.listAgents({ limit: 2, offset: 4 })).map((a) => a.pubkey), walked.slice(4));
+
+  const byOwner = await paging.listAgents({ owner: registryOwners[2], limit: 10 });
+  assert.deepEqual(byOwner.map((a) => a.owner), [registryOwners[2].toBase58()]);
+  assert.equal(scans.pop().filters.at(-1).memcmp.offset, 8);
+
+  const newest = await paging.listAgentsPage({ sort: 'registeredAt', order: 'desc', limit: 3 });
+  assert.equal(scans.pop().dataSlice, undefined);
+  assert.deepEqual(newest.agents.map((a) => (a.registeredAt - 1738886400) / 86400), [5, 4, 3]);
+  const older = await paging.listAgents({ sort: 'registeredAt', order: 'desc', limit: 3, cursor: newest.nextCursor });
+  assert.deepEqual(older.map((a) => (a.registeredAt - 1738886400) / 86400), [2, 1]);
+  const verifiedRecent = await paging.listAgents({ verified: true, registeredAfter: 1738886400 + 86400, sort: 'verifiedAt' });
+  assert.deepEqual(verifiedRecent.map((a) => (a.registeredAt - 1738886400) / 86400), [3, 5]);
+  await assert.rejects(paging.listAgentsPage({ cursor: 'garbage' }), (e) => e instanceof InvalidCursorError && e.code === 'INVALID_CURSOR');
+  console.log('   ✅ Key-only scans, memcmp owner filter, cursors, sorting and cards per page');
+
+  // Test 19: account subscriptions
+  console.log('\n19. watchAgent / watchRegistry:');
+  const live = new SAIDEmulator({ slotMs: 5 });
+  const watching = new SAID({ connection: live.connection });
+  const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+  const agentEventsSeen = [];
+  const registryEvents = [];
+  const watched = Keypair.generate();
+  live.airdrop(watched.publicKey, LAMPORTS_PER_SOL);
+  const agentWatcher = await watching.watchAgent(watched.publicKey, (e) => agentEventsSeen.push(e));
+  const resubscribed = [];
+  const registryWatcher = await watching.watchRegistry((e) => registryEvents.push(e), {
+    staleAfterMs: 40,
+    onResubscribe: () => resubscribed.push(Date.now())
+  });
+
+  await watching.registerAgent(watched, METADATA_URI);
+  await watching.verifyAgent(watched);
+  live.seedAgent(watched.publicKey, { metadataUri: 'https://example.com/v2.json', isVerified: true, verifiedAt: 1 });
+  assert.deepEqual(agentEventsSeen.map((e) => e.type), ['registered', 'verified', 'metadataUriChanged']);
+  assert.equal(agentEventsSeen[2].previous.metadataUri, METADATA_URI);
+  assert.equal(agentEventsSeen[2].agent.metadataUri, 'https://example.com/v2.json');
+  assert.ok(agentEventsSeen.every((e) => typeof e.slot === 'number'));
+  assert.deepEqual(registryEvents.map((e) => e.type), ['registered', 'verified', 'metadataUriChanged']);
+
+  // A silently dropped websocket is noticed by the missing slot notifications
+  live.dropSubscriptions();
+  const missed = live.seedAgent(Keypair.generate().publicKey, { isVerified: true });
+  await sleep(150);
+  assert.ok(resubscribed.length >= 1);
+  const replayed = registryEvents.slice(3);
+  assert.deepEqual(replayed.map((e) => e.type), ['registered', 'verified']);
+  assert.equal(replayed[0].agent.pubkey, missed.toBase58());
+  assert.equal(replayed[0].slot, undefined);
+  live.seedAgent(Keypair.generate().publicKey);
+  assert.equal(registryEvents.at(-1).type, 'registered');
+
+  await agentWatcher.resubscribe();
+  await agentWatcher.close();
+  await registryWatcher.close();
+  assert.equal(live.subscriptionCount, 0);
+  console.log('   ✅ Typed events, slot-based liveness check and replay of missed changes');
+
+  // Test 20: signed HTTP requests
+  console.log('\n20. Wallet-signed requests:');
+  const lookupAgent = (w) => said.lookup(w);
+  const verifyReq = createRequestVerifier({ lookup: lookupAgent, hosts: ['api.example'] });
+  const task = JSON.stringify({ task: 'summarize' });
+  const signedHeaders = await signRequest({ method: 'post', host: 'API.example', path: '/tasks?x=1', body: task }, wallet);
+  const request = { method: 'POST', path: '/tasks?x=1', body: task, headers: { ...signedHeaders, host: 'api.example' } };
+  assert.equal((await verifyReq(request)).owner, wallet.publicKey.toBase58());
+  const authFailure = (reason) => (e) => e instanceof AuthError && e.reason === reason;
+  await assert.rejects(verifyReq(request), authFailure('NONCE_REUSED'));
+  const resigned = async (overrides = {}, signer = wallet, signOptions = {}) => ({
+    ...request,
+    headers: { ...(await signRequest({ method: 'POST', host: 'api.example', path: '/tasks?x=1', body: task }, signer, signOptions)), host: 'api.example' },
+    ...overrides
+  });
+  await assert.rejects(verifyReq(await resigned({ body: '{"task":"wire funds"}' })), authFailure('BAD_SIGNATURE'));
+  await assert.rejects(verifyReq(await resigned({ path: '/admin' })), authFailure('BAD_SIGNATURE'));
+  // The host is signed: a request to one service cannot be replayed at another
+  const otherService = createRequestVerifier({ lookup: lookupAgent, hosts: ['other.example'] });
+  await assert.rejects(otherService(await resigned({ host: 'other.example' })), authFailure('BAD_SIGNATURE'));
+  await assert.rejects(otherService(await resigned()), authFailure('WRONG_AUDIENCE'));
+  await assert.rejects(verifyReq(await resigned({}, wallet, { timestamp: Math.floor(Date.now() / 1000) - 600 })), authFailure('STALE_TIMESTAMP'));
+  await assert.rejects(verifyReq({ ...request, headers: {} }), authFailure('MISSING_SIGNATURE'));
+  const stranger = Keypair.generate();
+  await assert.rejects(verifyReq(await resigned({}, stranger)), (e) => authFailure('NOT_REGISTERED')(e) && e.status === 403);
+  const unverified = Keypair.generate();
+  emulator.seedAgent(unverified.publicKey);
+  const strictVerify = createRequestVerifier({ lookup: lookupAgent, hosts: ['api.example'], requireVerified: true });
+  await assert.rejects(strictVerify(await resigned({}, unverified)), authFailure('NOT_VERIFIED'));
+  assert.equal((await strictVerify(await resigned())).isVerified, true);
+  console.log('   ✅ Signature, body/path/host binding, replay window, nonce reuse and identity checks');
+
+  let nodeAuth;
+  let expressMiddleware;
+  const server = createServer(async (req, res) => {
+    if (req.url.startsWith('/express')) {
+      res.status = (code) => ({ json: (body) => { res.writeHead(code, { 'content-type': 'application/json' }); res.end(JSON.stringify(body)); } });
+      req.originalUrl = req.url;
+      return expressMiddleware(req, res, (err) => res.end(err ? 'error' : `express ${req.said.owner} ${req.rawBody}`));
+    }
+    const agent = await nodeAuth(req, res);
+    if (agent) res.end(`node ${agent.owner} ${req.rawBody}`);
+  });
+  await new Promise((r) => server.listen(0, '127.0.0.1', r));
+  const serverHost = `127.0.0.1:${server.address().port}`;
+  nodeAuth = httpAuth({ lookup: lookupAgent, hosts: [serverHost], requireVerified: true });
+  expressMiddleware = expressAuth({ lookup: lookupAgent, hosts: [serverHost] });
+  const base = `http://${serverHost}`;
+  const call = async (path, signer, sentBody = task, signedBody = task) => fetch(`${base}${path}`, {
+    method: 'POST',
+    body: sentBody,
+    headers: await signRequest({ method: 'POST', host: serverHost, path, body: signedBody }, signer)
+  });
+  try {
+    const ok = await call('/tasks', wallet);
+    assert.equal(await ok.text(), `node ${wallet.publicKey.toBase58()} ${task}`);
+    const forbidden = await call('/tasks', unverified);
+    assert.equal(forbidden.status, 403);
+    assert.equal((await forbidden.json()).error, 'NOT_VERIFIED');
+    assert.equal((await call('/tasks', wallet, '{"task":"other"}')).status, 401);
+    assert.equal(await (await call('/express/tasks?q=1', unverified)).text(), `express ${unverified.publicKey.toBase58()} ${task}`);
+    assert.equal((await fetch(`${base}/express/tasks`)).status, 401);
+  } finally {
+    await new Promise((r) => server.close(r));
+  }
+
+  // Real Express: a JSON body parser mounted after the middleware still gets the body
+  const app = express();
+  app.set('env', 'test'); // Keep the expected 400 out of the test output
+  const expressServer = await new Promise((r) => { const listening = app.listen(0, '127.0.0.1', () => r(listening)); });
+  const expressHost = `127.0.0.1:${expressServer.address().port}`;
+  const echo = (req, res) => res.json({ owner: req.said.owner, body: req.body });
+  app.post('/first', expressAuth({ lookup: lookupAgent, hosts: [expressHost] }), express.json(), echo);
+  app.post('/parsed', express.json({ verify: (req, _res, buf) => { req.rawBody = buf; } }), expressAuth({ lookup: lookupAgent, hosts: [expressHost] }), echo);
+  const expressCall = async (path, body) => fetch(`http://${expressHost}${path}`, {
+    method: 'POST',
+    body,
+    headers: { 'content-type': 'application/json', ...(await signRequest({ method: 'POST', host: expressHost, path, body }, wallet)) }
+  });
+  try {
+    for (const path of ['/first', '/parsed']) {
+      const replied = await expressCall(path, task);
+      assert.equal(replied.status, 200, path);
+      assert.deepEqual(await replied.json(), { owner: wallet.publicKey.toBase58(), body: { task: 'summarize' } });
+    }
+    assert.equal((await expressCall('/first', '{not json')).status, 400);
+  } finally {
+    await new Promise((r) => expressServer.close(r));
+  }
+
+  const fastifyHook = fastifyAuth({ lookup: lookupAgent, hosts: ['api.example'] });
+  const replies = [];
+  const reply = { code: (status) => ({ send: (body) => replies.push({ status, body }) }) };
+  const fastifyRequest = { method: 'POST', url: '/tasks', rawBody: task, raw: { headers: {} }, headers: { host: 'api.example', ...(await signRequest({ method: 'POST', host: 'api.example', path: '/tasks', body: task }, wallet)) } };
+  await fastifyHook(fastifyRequest, reply);
+  assert.equal(fastifyRequest.said.owner, wallet.publicKey.toBase58());
+  await fastifyHook({ ...fastifyRequest, said: undefined }, reply);
+  assert.deepEqual(replies.map((r) => [r.status, r.body.error]), [[401, 'NONCE_REUSED']]);
+  console.log('   ✅ Node http, Express and Fastify middleware');
+
+  // Test 21: sign-in challenges and session tokens
+  console.log('\n21. Sign-in with SAID:');
+  const cardHolder = Keypair.generate();
+  host(cardHolder.publicKey, { name: 'Capable', capabilities: ['chat', 'trade'] });
+  const loginOptions = { domain: 'api.example', lookup: (w) => hosting.getAgent(w), nonces: new MemoryNonceStore() };
+  const challenge = createChallenge({ domain: 'api.example', statement: 'Sign in to api.example' });
+  assert.match(challenge.message, /^api\.example wants you to sign in/);
+  const signedChallenge = await signChallenge(challenge, cardHolder);
+  assert.ok(signedChallenge.challenge.message.includes(cardHolder.publicKey.toBase58()));
+  const loggedIn = await verifyChallenge(signedChallenge, loginOptions);
+  assert.equal(loggedIn.owner, cardHolder.publicKey.toBase58());
+  await assert.rejects(verifyChallenge(signedChallenge, loginOptions), authFailure('NONCE_REUSED'));
+  await assert.rejects(
+    verifyChallenge(await signChallenge(challenge, cardHolder), { ...loginOptions, domain: 'evil.example' }),
+    authFailure('WRONG_AUDIENCE')
+  );
+  const resignedChallenge = await signChallenge(createChallenge({ domain: 'api.example' }), cardHolder);
+  await assert.rejects(
+    verifyChallenge({ ...resignedChallenge, challenge: { ...resignedChallenge.challenge, expiresAt: resignedChallenge.challenge.expiresAt - 60 } }, loginOptions),
+    authFailure('BAD_SIGNATURE')
+  );
+  const expiredChallenge = createChallenge({ domain: 'api.example', ttlSeconds: 60, now: () => Math.floor(Date.now() / 1000) - 120 });
+  await assert.rejects(verifyChallenge(await signChallenge(expiredChallenge, cardHolder), loginOptions), authFailure('EXPIRED'));
+  // The client chooses the timestamps, so lifetimes past the server's limit are refused
+  const longLived = await signChallenge(createChallenge({ domain: 'api.example', ttlSeconds: 10 ** 9 }), cardHolder);
+  await assert.rejects(verifyChallenge(longLived, loginOptions), /lifetime exceeds the 300s maximum/);
+  const hourLong = await signChallenge(createChallenge({ domain: 'api.example', ttlSeconds: 3600 }), cardHolder);
+  await assert.rejects(verifyChallenge(hourLong, loginOptions), authFailure('MALFORMED'));
+  assert.equal((await verifyChallenge(hourLong, { ...loginOptions, maxTtlSeconds: 3600 })).owner, cardHolder.publicKey.toBase58());
+  const issued = createChallenge({ domain: 'api.example' });
+  await assert.rejects(
+    verifyChallenge(await signChallenge(createChallenge({ domain: 'api.example' }), cardHolder), { ...loginOptions, nonce: issued.nonce }),
+    /not issued for this session/
+  );
+  await verifyChallenge(await signChallenge(issued, cardHolder), { ...loginOptions, nonce: issued.nonce });
+  await assert.rejects(signChallenge(createChallenge({ domain: 'api.example', wallet: wallet.publicKey }), cardHolder), /is for wallet/);
+  await assert.rejects(
+    verifyChallenge(await signChallenge(createChallenge({ domain: 'api.example' }), Keypair.generate()), loginOptions),
+    authFailure('NOT_REGISTERED')
+  );
+
+  const token = issueToken(loggedIn, { secret: 'server-secret', audience: 'api.example', ttlSeconds: 60 });
+  const claims = verifyToken(token, { secret: 'server-secret', audience: 'api.example' });
+  assert.equal(claims.sub, cardHolder.publicKey.toBase58());
+  assert.equal(claims.agentPDA, loggedIn.pubkey);
+  assert.equal(claims.verified, false);
+  assert.deepEqual(claims.capabilities, ['chat', 'trade']);
+  assert.throws(() => verifyToken(token, { secret: 'other-secret' }), authFailure('BAD_SIGNATURE'));
+  assert.throws(() => verifyToken(token, { secret: 'server-secret', audience: 'other' }), authFailure('WRONG_AUDIENCE'));
+  assert.throws(() => verifyToken(token, { secret: 'server-secret', now: () => claims.exp }), authFailure('EXPIRED'));
+  const [h, , sig] = token.split('.');
+  const forgedClaims = Buffer.from(JSON.stringify({ ...claims, verified: true })).toString('base64url');
+  assert.throws(() => verifyToken(`${h}.${forgedClaims}.${sig}`, { secret: 'server-secret' }), authFailure('BAD_SIGNATURE'));
+  console.log('   ✅ Challenge signing, replay/audience/expiry/lifetime checks and HS256 session tokens');
+
+  // Test 22: delegated operator keys
+  console.log('\n22. Delegated operator keys:');
+  const delegator = Keypair.generate();
+  const operator = Keypair.generate();
+  const revocationsUri = `https://cards.example/${delegator.publicKey.toBase58()}.revocations.json`;
+  host(delegator.publicKey, { name: 'Delegating', revocationList: revocationsUri });
+  hostedCards.set(revocationsUri, JSON.stringify(await signRevocations(delegator, [])));
+  const delegation = await issueDelegation(delegator, operator.publicKey, { scopes: ['requests'], label: 'worker-1' });
+  assert.equal(verifyDelegation(delegation, { owner: delegator.publicKey, scope: 'requests' }).operator, operator.publicKey.toBase58());
+  assert.throws(() => verifyDelegation({ ...delegation, cert: { ...delegation.cert, scopes: ['requests', 'admin'] } }), authFailure('BAD_DELEGATION'));
+  assert.throws(() => verifyDelegation(delegation, { scope: 'admin' }), (e) => authFailure('SCOPE_DENIED')(e) && e.status === 403);
+  assert.throws(() => verifyDelegation(delegation, { now: () => delegation.cert.expiresAt }), authFailure('EXPIRED'));
+  await assert.rejects(issueDelegation(delegator, delegator.publicKey, { scopes: ['requests'] }), /must differ/);
+  // An owner-signed card shaped like a cert or revocation list must not verify as one
+  const rogue = Keypair.generate();
+  const cardShapedCert = { ...delegation.cert, operator: rogue.publicKey.toBase58() };
+  const cardSignature = (await signCard(cardShapedCert, delegator)).signature.value;
+  assert.throws(
+    () => verifyDelegation({ type: 'said-delegation', version: 1, cert: cardShapedCert, signature: cardSignature }, { owner: delegator.publicKey, scope: 'requests' }),
+    authFailure('BAD_DELEGATION')
+  );
+  const cardShapedList = { owner: delegator.publicKey.toBase58(), revoked: [], updatedAt: 1 };
+  const listSignature = (await signCard(cardShapedList, delegator)).signature.value;
+  assert.equal(verifyRevocations({ type: 'said-revocations', version: 1, ...cardShapedList, signature: listSignature }, delegator.publicKey), false);
+  assert.deepEqual((await hosting.getRevocations(delegator.publicKey)).revoked, []);
+  assert.equal(await hosting.getRevocations(signer.publicKey), null);
+
+  const delegatedVerify = createRequestVerifier({
+    lookup: (w) => hosting.lookup(w),
+    hosts: ['api.example'],
+    revocations: (w) => hosting.getRevocations(w)
+  });
+  const delegatedRequest = async (signOptions = { delegation }, signer = operator) => ({
+    ...request,
+    headers: { ...(await signRequest({ method: 'POST', host: 'api.example', path: '/tasks?x=1', body: task }, signer, signOptions)), host: 'api.example' }
+  });
+  const viaOperator = await delegatedVerify(await delegatedRequest());
+  assert.equal(viaOperator.owner, delegator.publicKey.toBase58());
+  assert.equal(viaOperator.delegation.operator, operator.publicKey.toBase58());
+  await assert.rejects(verifyReq(await delegatedRequest()), authFailure('BAD_DELEGATION'));
+  await assert.rejects(signRequest({ method: 'GET', host: 'api.example', path: '/' }, Keypair.generate(), { delegation }), /is for operator/);
+  const impostorRequest = await delegatedRequest({}, Keypair.generate());
+  impostorRequest.headers['x-said-wallet'] = delegator.publicKey.toBase58();
+  impostorRequest.headers['x-said-delegation'] = encodeDelegation(delegation);
+  await assert.rejects(delegatedVerify(impostorRequest), authFailure('BAD_SIGNATURE'));
+  const sessionsOnly = await issueDelegation(delegator, operator.publicKey, { scopes: ['sessions'] });
+  await assert.rejects(delegatedVerify(await delegatedRequest({ delegation: sessionsOnly })), authFailure('SCOPE_DENIED'));
+
+  hostedCards.set(revocationsUri, JSON.stringify(await signRevocations(delegator, [delegation.cert.id])));
+  await assert.rejects(delegatedVerify(await delegatedRequest()), authFailure('REVOKED'));
+  hostedCards.set(revocationsUri, JSON.stringify({ ...(await signRevocations(operator, [])), owner: delegator.publicKey.toBase58() }));
+  await assert.rejects(hosting.getRevocations(delegator.publicKey), (e) => e.code === 'CARD_INVALID');
+  console.log('   ✅ Owner-signed certificates, scopes, expiry and hosted revocation lists');
+
+  hostedCards.set(revocationsUri, JSON.stringify(await signRevocations(delegator, [delegation.cert.id])));
+  const delegatedChallenge = () => signChallenge(createChallenge({ domain: 'api.example' }), operator, { delegation: sessionsOnly });
+  const delegatedLogin = await verifyChallenge(await delegatedChallenge(), {
+    ...loginOptions,
+    revocations: (w) => hosting.getRevocations(w)
+  });
+  assert.equal(delegatedLogin.owner, delegator.publicKey.toBase58());
+  const delegatedClaims = verifyToken(issueToken(delegatedLogin, { secret: 'server-secret', ttlSeconds: 10 ** 9 }), { secret: 'server-secret' });
+  assert.equal(delegatedClaims.operator, operator.publicKey.toBase58());
+  assert.equal(delegatedClaims.exp, sessionsOnly.cert.expiresAt);
+  await assert.rejects(verifyChallenge(await delegatedChallenge(), loginOptions), authFailure('BAD_DELEGATION'));
+  console.log('   ✅ Delegated sign-in with tokens capped at the certificate expiry');
+
+  // Test 23: did:said resolution
+  console.log('\n23. did:said DID Documents:');
+  const didAgent = Keypair.generate();
+  host(didAgent.publicKey, {
+    name: 'Resolvable',
+    mcpEndpoint: 'https://mcp.example/sse',
+    a2aEndpoint: 'https://a2a.example',
+    website: 'https://agent.example'
+  });
+  const did = toDid(didAgent.publicKey);
+  assert.equal(did, `did:said:${didAgent.publicKey.toBase58()}`);
+  assert.equal(walletFromDid(did).toBase58(), didAgent.publicKey.toBase58());
+  assert.throws(() => walletFromDid('did:web:example.com'), (e) => e.code === 'INVALID_ADDRESS');
+
+  const resolved = await hosting.resolveDid(did);
+  assert.equal(resolved.didResolutionMetadata.contentType, 'application/did+ld+json');
+  const didDocument = resolved.didDocument;
+  assert.equal(didDocument.id, did);
+  const [ownerKey] = didDocument.verificationMethod;
+  assert.equal(ownerKey.type, 'Ed25519VerificationKey2020');
+  assert.deepEqual(didDocument.authentication, [ownerKey.id]);
+  const multibase = bs58.decode(ownerKey.publicKeyMultibase.slice(1));
+  assert.deepEqual([...multibase.slice(0, 2)], [0xed, 0x01]);
+  assert.deepEqual([...multibase.slice(2)], [...didAgent.publicKey.toBytes()]);
+  assert.deepEqual(didDocument.service.map((s) => [s.id.split('#')[1], s.type, s.serviceEndpoint]), [
+    ['mcp', 'MCPEndpoint', 'https://mcp.example/sse'],
+    ['a2a', 'A2AEndpoint', 'https://a2a.example'],
+    ['website', 'LinkedDomains', 'https://agent.example']
+  ]);
+  const didAccount = await hosting.lookup(didAgent.publicKey);
+  assert.equal(resolved.didDocumentMetadata.isVerified, false);
+  assert.equal(resolved.didDocumentMetadata.registeredAt, didAccount.registeredAt);
+  assert.equal(resolved.didDocumentMetadata.agentPDA, didAccount.pubkey);
+
+  assert.equal((await hosting.resolveDid('did:said:nope')).didResolutionMetadata.error, 'invalidDid');
+  const missing = await hosting.resolveDid(toDid(Keypair.generate().publicKey));
+  assert.equal(missing.didResolutionMetadata.error, 'notFound');
+  assert.equal(missing.didDocument, null);
+  const cardless = Keypair.generate();
+  emulator.seedAgent(cardless.publicKey, { metadataUri: 'https://cards.example/missing.json' });
+  const withoutCard = await hosting.resolveDid(toDid(cardless.publicKey));
+  assert.equal(withoutCard.didDocument.service, undefined);
+  assert.match(withoutCard.didDocumentMetadata.cardError, /missing\.json/);
+
+  const didRegistry = getResolver(hosting);
+  const viaRegistry = await didRegistry.said(`${did}#owner`, { did, method: 'said', id: didAgent.publicKey.toBase58() });
+  assert.equal(viaRegistry.didDocument.id, did);
+  console.log('   ✅ Owner key, card services, registration metadata and did-resolver registry');
+
+  // Test 24: social proof credentials
+  console.log('\n24. Social proof credentials:');
+  const prover = Keypair.generate();
+  const checker = Keypair.generate();
+  const domainClaim = {
+    wallet: prover.publicKey.toBase58(),
+    platform: 'domain',
+    account: 'agent.example',
+    evidence: 'https://agent.example/.well-known/said.json',
+    checkedAt: 1_700_000_000
+  };
+  const selfIssued = await issueSocialCredential(domainClaim, prover);
+  const [, credentialPayload] = selfIssued.split('.');
+  const vc = JSON.parse(Buffer.from(credentialPayload, 'base64url').toString());
+  assert.equal(vc.iss, `did:said:${prover.publicKey.toBase58()}`);
+  assert.deepEqual(vc.vc.type, ['VerifiableCredential', 'SocialProofCredential']);
+  // A wallet can sign any handle for itself, so self-issued credentials are not proofs by default
+  const selfClaimed = await issueSocialCredential({ ...domainClaim, platform: 'twitter', account: '@someone_famous' }, prover);
+  assert.throws(() => verifySocialCredential(selfClaimed), authFailure('UNTRUSTED_ISSUER'));
+  assert.throws(() => verifySocialCredential(selfClaimed, { wallet: prover.publicKey }), /self-issued/);
+  const proof = verifySocialCredential(selfIssued, { wallet: prover.publicKey, allowSelfIssued: true });
+  assert.deepEqual(
+    [proof.platform, proof.account, proof.method, proof.evidence, proof.issuedAt, proof.selfIssued],
+    ['domain', 'agent.example', 'well-known-said-json', domainClaim.evidence, 1_700_000_000, true]
+  );
+  const tampered = JSON.stringify({ ...vc, vc: { ...vc.vc, credentialSubject: { ...vc.vc.credentialSubject, account: 'bank.example' } } });
+  const [credentialHeader, , credentialSignature] = selfIssued.split('.');
+  assert.throws(
+    () => verifySocialCredential(`${credentialHeader}.${Buffer.from(tampered).toString('base64url')}.${credentialSignature}`, { allowSelfIssued: true }),
+    authFailure('BAD_SIGNATURE')
+  );
+  assert.throws(() => verifySocialCredential(selfIssued, { wallet: checker.publicKey }), authFailure('SUBJECT_MISMATCH'));
+  const unsupported = await issueSocialCredential({ ...domainClaim, platform: 'myspace', account: 'tom' }, checker);
+  assert.throws(() => verifySocialCredential(unsupported, { trustedIssuers: [checker.publicKey] }), /Unsupported social proof platform myspace/);
+  assert.throws(() => verifySocialCredential('not.a.credential'), authFailure('MALFORMED'));
+
+  const vouched = await issueSocialCredential({ ...domainClaim, platform: 'github', account: 'agent/repo' }, checker, { ttlSeconds: 60 });
+  assert.throws(() => verifySocialCredential(vouched, { now: () => 1_700_000_030 }), authFailure('UNTRUSTED_ISSUER'));
+  const thirdParty = verifySocialCredential(vouched, { trustedIssuers: [checker.publicKey], now: () => 1_700_000_030 });
+  assert.equal(thirdParty.selfIssued, false);
+  assert.equal(thirdParty.issuer, checker.publicKey.toBase58());
+  assert.throws(() => verifySocialCredential(vouched, { trustedIssuers: [checker.publicKey] }), authFailure('EXPIRED'));
+
+  const borrowed = await issueSocialCredential({ ...domainClaim, wallet: checker.publicKey.toBase58() }, checker);
+  const vouchedNow = await issueSocialCredential({ ...domainClaim, platform: 'github', account: 'agent/repo', checkedAt: undefined }, checker);
+  host(prover.publicKey, { name: 'Proven', credentials: [selfIssued, borrowed, vouchedNow] });
+  const socialProofs = await hosting.getSocialProofs(prover.publicKey, { trustedIssuers: [checker.publicKey] });
+  assert.deepEqual(socialProofs.proofs.map((p) => p.account), ['agent/repo']);
+  assert.deepEqual(socialProofs.claims.map((p) => p.account), ['agent.example']);
+  assert.deepEqual(socialProofs.rejected.map((r) => r.error.reason), ['SUBJECT_MISMATCH']);
+  const untrusting = await hosting.getSocialProofs(prover.publicKey);
+  assert.deepEqual(untrusting.proofs, []);
+  assert.deepEqual(untrusting.claims.map((p) => p.account), ['agent.example']);
+  assert.deepEqual(untrusting.rejected.map((r) => r.error.reason), ['SUBJECT_MISMATCH', 'UNTRUSTED_ISSUER']);
+  assert.equal(await hosting.getSocialProofs(Keypair.generate().publicKey), null);
+  console.log('   ✅ Trusted-issuer proofs, self-issued claims kept apart, tampering and card listing');
 
   console.log('\n✅ All tests passed!');
 }
 
-test().catch(console.error);
+test().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});